@@ -0,0 +1,330 @@
+/**
+ * Reminder Service Worker extension
+ *
+ * Imported by the service worker generated by vite-plugin-pwa (workbox.importScripts).
+ * The page sends today's pending reminders (see ReminderService); this script:
+ * - Schedules them with Notification Triggers where supported
+ * - Otherwise shows the ones that are due on periodic background sync
+ * - Opens the quick-log of the habit when a notification is tapped
+ * - Handles the "Hecho" and "Posponer" actions without opening the app: "Hecho" writes
+ *   the log straight to IndexedDB and tells open windows to reload their data
+ */
+
+/**
+ * Cache entry holding the latest reminder list
+ */
+const REMINDER_CACHE = 'habit-reminders';
+const REMINDER_KEY = '/__reminders.json';
+
+/**
+ * Tag of the periodic background sync registered by the page
+ */
+const PERIODIC_SYNC_TAG = 'habit-reminders';
+
+/**
+ * IndexedDB database and stores shared with HabitDatabaseService
+ */
+const DB_NAME = 'habit-tracker';
+const HABITS_STORE = 'habits';
+const LOGS_STORE = 'logs';
+
+/**
+ * Notification action buttons (see ReminderService)
+ */
+const REMINDER_ACTIONS = [
+    { action: 'done', title: 'Hecho' },
+    { action: 'snooze', title: 'Posponer' },
+];
+
+/**
+ * How long "Posponer" delays a reminder
+ */
+const SNOOZE_MS = 30 * 60 * 1000;
+
+/**
+ * Read the stored reminders
+ *
+ * @returns {Promise<Array<{ habitId: string, date: string, tag: string, title: string, body: string, at: number, url: string, shown?: boolean }>>}
+ */
+async function readReminders() {
+    const cache = await caches.open(REMINDER_CACHE);
+    const response = await cache.match(REMINDER_KEY);
+    return response ? response.json() : [];
+}
+
+/**
+ * Store the reminder list
+ */
+async function writeReminders(reminders) {
+    const cache = await caches.open(REMINDER_CACHE);
+    await cache.put(REMINDER_KEY, new Response(JSON.stringify(reminders), {
+        headers: { 'Content-Type': 'application/json' },
+    }));
+}
+
+/**
+ * Notification options of a reminder
+ */
+function toNotificationOptions(reminder) {
+    return {
+        body: reminder.body,
+        tag: reminder.tag,
+        icon: '/icons/icon-192x192.png',
+        data: { habitId: reminder.habitId, date: reminder.date, url: reminder.url },
+        actions: REMINDER_ACTIONS,
+    };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify(request) {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Open the app database at its current version.
+ * The page owns the schema: if the database doesn't exist yet, creating it is aborted.
+ */
+function openDatabase() {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    return promisify(request);
+}
+
+/**
+ * Format a Date as local "YYYY-MM-DD"
+ */
+function formatDate(date) {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function transactionDone(transaction) {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Mark a habit as done for a day, like HabitLogService.setCompletion:
+ * numeric habits log exactly their target.
+ * The stored log is kept when it was changed more recently (last writer wins, like
+ * putUnlessNewer), and when it is a skip or a logged amount: the user recorded
+ * something else for that day and "Hecho" shouldn't silently replace it.
+ *
+ * @returns {Promise<'logged' | 'unchanged' | 'kept' | 'missing'>} resolved once committed
+ */
+async function completeHabit(habitId, date) {
+    const db = await openDatabase();
+
+    try {
+        const transaction = db.transaction([HABITS_STORE, LOGS_STORE], 'readwrite');
+        const done = transactionDone(transaction);
+        const logs = transaction.objectStore(LOGS_STORE);
+
+        const [habit, stored] = await Promise.all([
+            promisify(transaction.objectStore(HABITS_STORE).get(habitId)),
+            promisify(logs.get([habitId, date])),
+        ]);
+
+        const updatedAt = new Date().toISOString();
+        let result;
+
+        if (!habit) {
+            result = 'missing';
+        } else if (stored && (stored.updatedAt ?? '') > updatedAt) {
+            result = 'kept';
+        } else if (stored?.skipped || (stored?.value !== undefined && !stored.completed)) {
+            result = 'kept';
+        } else if (stored?.completed) {
+            result = 'unchanged';
+        } else {
+            logs.put(habit.target
+                ? { habitId, date, completed: true, value: habit.target.value, updatedAt }
+                : { habitId, date, completed: true, updatedAt });
+            result = 'logged';
+        }
+
+        await done;
+        return result;
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Tell every open window that the logs changed
+ */
+async function notifyLogsChanged(habitId, date) {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    for (const client of windows) {
+        client.postMessage({ type: 'LOGS_CHANGED', habitId, date });
+    }
+}
+
+/**
+ * "Hecho": log the habit for the reminder's day and drop its reminder.
+ * When a different log is kept, the quick-log opens so the user can decide.
+ */
+async function handleDone(notification) {
+    const { habitId } = notification.data;
+    // Notifications shown before the date was stored carry none: they are from today
+    const date = notification.data.date ?? formatDate(new Date());
+
+    const result = await completeHabit(habitId, date);
+    if (result === 'missing') return;
+
+    if (result === 'kept') {
+        await openQuickLog(notification.data);
+        return;
+    }
+
+    const reminders = await readReminders();
+    await writeReminders(reminders.filter(r => r.tag !== notification.tag));
+
+    if (result === 'logged') {
+        await notifyLogsChanged(habitId, date);
+    }
+}
+
+/**
+ * "Posponer": show the reminder again later
+ */
+async function handleSnooze(notification) {
+    const at = Date.now() + SNOOZE_MS;
+    const reminders = await readReminders();
+    const reminder = reminders.find(r => r.tag === notification.tag) ?? {
+        habitId: notification.data.habitId,
+        date: notification.data.date,
+        tag: notification.tag,
+        title: notification.title,
+        body: notification.body,
+        url: notification.data.url,
+    };
+
+    // Picked up again by the trigger or by the next periodic sync
+    Object.assign(reminder, { at, shown: false });
+    await writeReminders([...reminders.filter(r => r.tag !== reminder.tag), reminder]);
+
+    if ('showTrigger' in Notification.prototype) {
+        await self.registration.showNotification(reminder.title, {
+            ...toNotificationOptions(reminder),
+            showTrigger: new TimestampTrigger(at),
+        });
+    }
+}
+
+/**
+ * Replace today's reminders. Reminders missing from the new list (done, skipped,
+ * paused or removed habits) are cancelled.
+ */
+async function scheduleReminders(reminders) {
+    const previous = new Map((await readReminders()).map(r => [r.tag, r]));
+
+    // Keep the delivery state and any snoozed time of reminders already known
+    reminders = reminders.map(r => {
+        const known = previous.get(r.tag);
+        return known && known.at > r.at
+            ? { ...r, at: known.at, shown: known.shown }
+            : { ...r, shown: known?.shown ?? false };
+    });
+
+    await writeReminders(reminders);
+
+    if (!('showTrigger' in Notification.prototype)) return;
+
+    // Drop pending triggers and plan the new list
+    const pending = await self.registration.getNotifications({ includeTriggered: true });
+    for (const notification of pending) {
+        if (notification.tag.startsWith('reminder-')) notification.close();
+    }
+
+    const now = Date.now();
+    for (const reminder of reminders) {
+        if (reminder.at <= now || reminder.shown) continue;
+
+        await self.registration.showNotification(reminder.title, {
+            ...toNotificationOptions(reminder),
+            showTrigger: new TimestampTrigger(reminder.at),
+        });
+    }
+}
+
+/**
+ * Show the stored reminders whose time has come and that weren't shown yet
+ */
+async function showDueReminders() {
+    const reminders = await readReminders();
+    const now = Date.now();
+    let changed = false;
+
+    for (const reminder of reminders) {
+        if (reminder.shown || reminder.at > now) continue;
+
+        // Only today's reminders: a list left over from a previous day is stale
+        if (new Date(reminder.at).toDateString() !== new Date(now).toDateString()) continue;
+
+        await self.registration.showNotification(reminder.title, toNotificationOptions(reminder));
+        reminder.shown = true;
+        changed = true;
+    }
+
+    if (changed) {
+        await writeReminders(reminders);
+    }
+}
+
+/**
+ * Focus an open window and ask it for the quick-log, or open a new one
+ */
+async function openQuickLog(data) {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+    if (windows.length > 0) {
+        const client = windows[0];
+        client.postMessage({ type: 'OPEN_QUICK_LOG', habitId: data.habitId });
+        await client.focus();
+        return;
+    }
+
+    await self.clients.openWindow(data.url);
+}
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'SCHEDULE_REMINDERS') {
+        event.waitUntil(scheduleReminders(event.data.reminders));
+    }
+});
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === PERIODIC_SYNC_TAG) {
+        event.waitUntil(showDueReminders());
+    }
+});
+
+self.addEventListener('notificationclick', (event) => {
+    const notification = event.notification;
+    const data = notification.data;
+    notification.close();
+
+    if (!data?.habitId) return;
+
+    if (event.action === 'done') {
+        event.waitUntil(handleDone(notification));
+    } else if (event.action === 'snooze') {
+        event.waitUntil(handleSnooze(notification));
+    } else {
+        event.waitUntil(openQuickLog(data));
+    }
+});
@@ -0,0 +1,199 @@
+/**
+ * Reference Sync Server
+ *
+ * Minimal self-hosted backend for the optional sync (see src/services/sync.service.ts).
+ * No dependencies: Node's http module plus a JSON file on disk.
+ *
+ *   npm run sync-server
+ *
+ * Environment variables:
+ * - PORT: port to listen on (default 8787)
+ * - SYNC_DATA_FILE: where the data is kept (default server/sync-data.json)
+ * - SYNC_TOKEN: when set, requests must send "Authorization: Bearer <token>"
+ *
+ * API:
+ * - GET  /health → { ok: true }
+ * - POST /sync   { cursor, habits, logs } → { cursor, habits, logs }
+ *   Stores the pushed habits and logs and returns the records changed by
+ *   other devices since the cursor. Each habit (by id) and log (by habitId + date)
+ *   keeps the version with the most recent updatedAt.
+ */
+
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE || fileURLToPath(new URL('./sync-data.json', import.meta.url));
+const TOKEN = process.env.SYNC_TOKEN || '';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Stored data: every record remembers the sequence number of its last change,
+ * which is what clients use as cursor
+ *
+ * @type {{ seq: number, habits: Record<string, { seq: number, record: object }>, logs: Record<string, { seq: number, record: object }> }}
+ */
+let data = { seq: 0, habits: {}, logs: {} };
+
+/**
+ * Load the data file, starting empty if it doesn't exist yet
+ */
+async function load() {
+    try {
+        data = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+}
+
+/**
+ * Write the data file atomically
+ */
+async function save() {
+    const tmp = `${DATA_FILE}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, DATA_FILE);
+}
+
+/**
+ * Store a record unless the stored one is more recent (last writer wins)
+ *
+ * @returns Whether the record was stored
+ */
+function upsert(collection, key, record) {
+    const stored = collection[key];
+    if (stored && (stored.record.updatedAt ?? '') >= (record.updatedAt ?? '')) {
+        return false;
+    }
+
+    data.seq++;
+    collection[key] = { seq: data.seq, record };
+    return true;
+}
+
+/**
+ * Records of a collection changed after a cursor
+ */
+function changedSince(collection, cursor) {
+    return Object.values(collection)
+        .filter(entry => entry.seq > cursor)
+        .map(entry => entry.record);
+}
+
+/**
+ * Whether a value looks like a habit / log
+ */
+const isHabit = (value) => typeof value?.id === 'string' && typeof value.name === 'string';
+const isLog = (value) => typeof value?.habitId === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value?.date);
+
+/**
+ * Handle POST /sync
+ */
+async function handleSync(body) {
+    const cursor = Number(body.cursor) || 0;
+    const habits = Array.isArray(body.habits) ? body.habits.filter(isHabit) : [];
+    const logs = Array.isArray(body.logs) ? body.logs.filter(isLog) : [];
+
+    // Changes from others are read before storing the push, so the client doesn't get its own records back
+    const response = {
+        habits: changedSince(data.habits, cursor),
+        logs: changedSince(data.logs, cursor),
+    };
+
+    let changed = false;
+    for (const habit of habits) {
+        changed = upsert(data.habits, habit.id, habit) || changed;
+    }
+    for (const log of logs) {
+        changed = upsert(data.logs, `${log.habitId}|${log.date}`, log) || changed;
+    }
+
+    if (changed) {
+        await save();
+    }
+
+    return { cursor: data.seq, ...response };
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+function readJson(req) {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+            } catch {
+                reject(Object.assign(new Error('Invalid JSON'), { status: 400 }));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Send a JSON response with CORS headers (the app runs on another origin)
+ */
+function send(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// Requests are handled one at a time, so a sync round never interleaves with another
+let queue = Promise.resolve();
+
+const server = createServer((req, res) => {
+    queue = queue.then(async () => {
+        try {
+            const { pathname } = new URL(req.url, 'http://localhost');
+
+            if (req.method === 'OPTIONS') {
+                send(res, 204);
+                return;
+            }
+
+            if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+                send(res, 401, { error: 'Unauthorized' });
+                return;
+            }
+
+            if (req.method === 'GET' && pathname === '/health') {
+                send(res, 200, { ok: true });
+            } else if (req.method === 'POST' && pathname === '/sync') {
+                send(res, 200, await handleSync(await readJson(req)));
+            } else {
+                send(res, 404, { error: 'Not found' });
+            }
+        } catch (error) {
+            console.error(error);
+            send(res, error.status ?? 500, { error: error.message });
+        }
+    });
+});
+
+await load();
+server.listen(PORT, () => {
+    console.log(`Habit Tracker sync server on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
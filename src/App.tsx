@@ -1,18 +1,31 @@
+import { useState } from 'react';
 import { AppLayout } from './components';
 import { NetworkProvider, HabitProvider } from './context';
-import { YearCalendar } from './components/features';
+import { TodayView, YearCalendar, MonthView, WeekView, ViewSwitcher, StatsDashboard, HabitHeatmap, UndoToast, ReminderScheduler, LoadErrorNotice } from './components/features';
+import type { AppView } from './types';
 
 /**
  * App Component
  * 
- * Root application component with all providers and the main calendar view.
+ * Root application component with all providers and the main views.
  */
 function App() {
+  const [view, setView] = useState<AppView>('today');
+
   return (
     <NetworkProvider>
       <HabitProvider>
         <AppLayout headerTitle="Habit Tracker">
-          <YearCalendar />
+          <LoadErrorNotice />
+          <ViewSwitcher value={view} onChange={setView} />
+          {view === 'today' && <TodayView onOpenCalendar={() => setView('calendar')} />}
+          {view === 'calendar' && <YearCalendar />}
+          {view === 'month' && <MonthView />}
+          {view === 'week' && <WeekView />}
+          {view === 'stats' && <StatsDashboard />}
+          {view === 'heatmap' && <HabitHeatmap />}
+          <UndoToast />
+          <ReminderScheduler />
         </AppLayout>
       </HabitProvider>
     </NetworkProvider>
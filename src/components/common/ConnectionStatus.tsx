@@ -1,20 +1,41 @@
 import { useNetwork } from '../../context';
+import type { SyncStatus } from '../../types';
 
 /**
  * Props for ConnectionStatus component
  */
 interface ConnectionStatusProps {
-    /** Whether to show the component when online (default: true) */
+    /** Whether to show the component when online (default: true) - always shown while sync is enabled */
     showWhenOnline?: boolean;
     /** Custom class name for styling */
     className?: string;
 }
 
+/**
+ * Describe the sync status, or null when sync is disabled
+ */
+function getSyncText(sync: SyncStatus): string | null {
+    switch (sync.state) {
+        case 'disabled':
+            return null;
+        case 'syncing':
+            return 'Sincronizando…';
+        case 'error':
+            return 'Error al sincronizar';
+        default:
+            if (sync.pendingChanges === 0) return 'Sincronizado';
+            return sync.pendingChanges === 1
+                ? '1 cambio pendiente'
+                : `${sync.pendingChanges} cambios pendientes`;
+    }
+}
+
 /**
  * ConnectionStatus Component
  * 
  * A visual indicator showing the current network connection status.
- * Displays a banner with appropriate styling for online/offline states.
+ * Displays a banner with appropriate styling for online/offline states,
+ * plus the server sync status (pending changes are queued while offline).
  * 
  * Accessibility Features:
  * - Uses role="status" for screen reader announcements
@@ -36,10 +57,11 @@ export function ConnectionStatus({
     showWhenOnline = true,
     className = ''
 }: ConnectionStatusProps) {
-    const { isOnline, lastChanged } = useNetwork();
+    const { isOnline, lastChanged, sync } = useNetwork();
+    const syncText = getSyncText(sync);
 
-    // Don't render if online and showWhenOnline is false
-    if (isOnline && !showWhenOnline) {
+    // Don't render if online and showWhenOnline is false (unless there is a sync status)
+    if (isOnline && !showWhenOnline && !syncText) {
         return null;
     }
 
@@ -70,6 +92,16 @@ export function ConnectionStatus({
                 {isOnline ? 'Online' : 'Offline'}
             </span>
 
+            {/* Sync status (if enabled) */}
+            {syncText && (
+                <span
+                    className={`connection-status__sync ${sync.state === 'error' ? 'connection-status__sync--error' : ''}`}
+                    title={sync.error ?? (sync.lastSyncedAt ? `Última sincronización: ${sync.lastSyncedAt.toLocaleTimeString('es-ES')}` : undefined)}
+                >
+                    {syncText}
+                </span>
+            )}
+
             {/* Last changed timestamp (if available) */}
             {lastChanged && (
                 <span className="connection-status__time">
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+
+interface ToastProps {
+    /** Message to display */
+    message: string;
+    /** Label of the optional action button */
+    actionLabel?: string;
+    /** Action button handler */
+    onAction?: () => void;
+    /** Called when the toast should disappear */
+    onClose: () => void;
+    /** Auto-hide delay in milliseconds (default: 5000) */
+    duration?: number;
+}
+
+/**
+ * Toast Component
+ * 
+ * Small notification at the bottom of the screen with an optional action.
+ * Hides itself after `duration` milliseconds.
+ */
+export function Toast({ message, actionLabel, onAction, onClose, duration = 5000 }: ToastProps) {
+    useEffect(() => {
+        const timeoutId = setTimeout(onClose, duration);
+        return () => clearTimeout(timeoutId);
+    }, [onClose, duration]);
+
+    return (
+        <div className="toast fade-in" role="status" aria-live="polite">
+            <span className="toast__message">{message}</span>
+            {actionLabel && onAction && (
+                <button type="button" className="toast__action" onClick={onAction}>
+                    {actionLabel}
+                </button>
+            )}
+            <button type="button" className="toast__close" onClick={onClose} aria-label="Cerrar">
+                ✕
+            </button>
+        </div>
+    );
+}
+
+export default Toast;
@@ -6,3 +6,4 @@ export { ConnectionStatus } from './ConnectionStatus';
 export { Modal } from './Modal';
 export { ColorPicker } from './ColorPicker';
 export { UpdateButton } from './UpdateButton';
+export { Toast } from './Toast';
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Modal } from '../common/Modal';
+import { useBackup } from '../../hooks';
+import type { ImportMode, ImportPreview } from '../../types';
+
+interface BackupModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * BackupModal Component
+ * 
+ * Export and import of JSON backups:
+ * - Download the full data as a versioned JSON file
+ * - Validate a backup file and show what would change
+ * - Merge the backup into the current data or replace it
+ */
+export function BackupModal({ onClose }: BackupModalProps) {
+    const { exportBackup, readBackup, importBackup } = useBackup();
+
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again
+        e.target.value = '';
+
+        setError(null);
+        setSuccess(null);
+        setPreview(null);
+
+        if (!file) return;
+
+        try {
+            setPreview(await readBackup(file));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'No se pudo leer el archivo');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!preview) return;
+
+        setIsImporting(true);
+        setError(null);
+
+        try {
+            await importBackup(preview, mode);
+            setPreview(null);
+            setSuccess(mode === 'merge' ? 'Copia combinada con tus datos' : 'Datos reemplazados por la copia');
+        } catch {
+            setError('No se pudo guardar la copia. Tus datos actuales no se han modificado.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const exportedAt = preview?.exportedAt
+        ? new Date(preview.exportedAt).toLocaleString('es-ES')
+        : null;
+
+    return (
+        <Modal onClose={onClose} title="Copia de seguridad" wide>
+            <div className="backup">
+                {/* Export */}
+                <section className="backup__section">
+                    <h3 className="habit-edit__section-title">Exportar</h3>
+                    <p className="habit-edit__section-desc">
+                        Descarga todos tus hábitos y registros en un archivo JSON.
+                    </p>
+                    <button
+                        type="button"
+                        className="habit-form__btn habit-form__btn--primary"
+                        onClick={exportBackup}
+                    >
+                        Descargar copia
+                    </button>
+                </section>
+
+                {/* Import */}
+                <section className="backup__section">
+                    <h3 className="habit-edit__section-title">Importar</h3>
+                    <p className="habit-edit__section-desc">
+                        Restaura una copia descargada previamente.
+                    </p>
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        className="habit-form__input"
+                        onChange={handleFileChange}
+                        aria-label="Seleccionar copia de seguridad"
+                    />
+                </section>
+
+                {/* Diff summary */}
+                {preview && (
+                    <section className="backup__section">
+                        {exportedAt && (
+                            <p className="habit-form__hint">Copia del {exportedAt}</p>
+                        )}
+                        <ul className="backup__summary">
+                            <li>
+                                <strong>{preview.summary.newHabits.length}</strong> hábitos nuevos
+                                {preview.summary.newHabits.length > 0 && (
+                                    <span className="backup__names">
+                                        {preview.summary.newHabits.map(h => h.name).join(', ')}
+                                    </span>
+                                )}
+                            </li>
+                            <li><strong>{preview.summary.existingHabits.length}</strong> hábitos ya existentes</li>
+                            <li><strong>{preview.summary.newLogs}</strong> registros nuevos</li>
+                            <li>
+                                <strong>{preview.summary.conflictingLogs}</strong> registros en conflicto
+                            </li>
+                        </ul>
+
+                        <div className="choice-list" role="radiogroup" aria-label="Modo de importación">
+                            <label className="choice">
+                                <input
+                                    type="radio"
+                                    name="import-mode"
+                                    checked={mode === 'merge'}
+                                    onChange={() => setMode('merge')}
+                                />
+                                <span>
+                                    <strong>Combinar</strong>
+                                    <span className="habit-form__hint">
+                                        Mantiene tus datos; en los conflictos gana el cambio más reciente.
+                                    </span>
+                                </span>
+                            </label>
+                            <label className="choice">
+                                <input
+                                    type="radio"
+                                    name="import-mode"
+                                    checked={mode === 'replace'}
+                                    onChange={() => setMode('replace')}
+                                />
+                                <span>
+                                    <strong>Reemplazar</strong>
+                                    <span className="habit-form__hint">
+                                        Borra tus datos actuales y usa solo la copia.
+                                    </span>
+                                </span>
+                            </label>
+                        </div>
+
+                        <div className="habit-form__actions">
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--secondary"
+                                onClick={() => setPreview(null)}
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--primary"
+                                onClick={handleImport}
+                                disabled={isImporting}
+                            >
+                                {isImporting ? 'Importando...' : 'Importar'}
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {/* Feedback */}
+                {error && (
+                    <p className="habit-form__error" role="alert">
+                        {error}
+                    </p>
+                )}
+                {success && (
+                    <p className="habit-form__success" role="status">
+                        {success}
+                    </p>
+                )}
+            </div>
+        </Modal>
+    );
+}
+
+export default BackupModal;
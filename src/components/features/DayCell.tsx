@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { memo, useMemo } from 'react';
 import type { DayStatus } from '../../types';
 
 interface DayCellProps {
@@ -12,6 +12,8 @@ interface DayCellProps {
     isToday: boolean;
     /** Whether this day is in the future */
     isFuture: boolean;
+    /** Whether this day has a note */
+    hasNote?: boolean;
     /** Click handler */
     onClick?: (date: string) => void;
 }
@@ -24,13 +26,19 @@ interface DayCellProps {
  * - Gray: No habits logged
  * - Multi-color gradient: Shows colors of completed habits
  * - Red outline: Mandatory habits not completed
+ * - Bottom bar: partial progress (including numeric habits below target)
+ * - Striped: every habit paused (vacation mode)
+ * - Corner mark: the day has a note
+ *
+ * Memoised: a log change only re-renders the cells whose status changed.
  */
-export function DayCell({
+export const DayCell = memo(function DayCell({
     day,
     date,
     status,
     isToday,
     isFuture,
+    hasNote = false,
     onClick
 }: DayCellProps) {
 
@@ -47,6 +55,11 @@ export function DayCell({
             return { background: 'var(--color-bg-tertiary)' };
         }
 
+        // Paused day: neutral striped background from CSS
+        if (status.isPaused) {
+            return {};
+        }
+
         // In filtered mode: show individual habit colors
         if (status.isFiltered && status.completedColors.length > 0) {
             const colors = status.completedColors;
@@ -101,7 +114,10 @@ export function DayCell({
     }, [status, isFuture]);
 
     // Check if mandatory habits are incomplete (for red indicator)
+    const isPaused = !isFuture && status?.isPaused;
+
     const hasMissingMandatory = status &&
+        !isPaused &&
         status.mandatoryTotal > 0 &&
         status.mandatoryCompleted < status.mandatoryTotal &&
         !isFuture;
@@ -114,6 +130,11 @@ export function DayCell({
         !status.isFiltered &&
         !isFuture;
 
+    // Partial progress: some work done but the day isn't complete yet
+    const partialProgress = status && !isFuture && status.progress > 0 && status.progress < 1
+        ? status.progress
+        : null;
+
     const handleClick = () => {
         if (!isFuture && onClick) {
             onClick(date);
@@ -127,6 +148,7 @@ export function DayCell({
         day-cell
         ${isToday ? 'day-cell--today' : ''}
         ${isFuture ? 'day-cell--future' : ''}
+        ${isPaused ? 'day-cell--paused' : ''}
         ${hasMissingMandatory ? 'day-cell--missing-mandatory' : ''}
         ${allMandatoryComplete ? 'day-cell--all-mandatory' : ''}
         ${status && status.completedColors.length > 0 ? 'day-cell--has-completions' : ''}
@@ -134,17 +156,27 @@ export function DayCell({
             style={dotStyle}
             onClick={handleClick}
             disabled={isFuture}
-            aria-label={`Día ${day}${status ? `, ${status.completedColors.length} hábitos completados` : ''}${allMandatoryComplete ? ' ✓ Todos los obligatorios!' : ''}`}
-            title={`Día ${day}${allMandatoryComplete ? ' ⭐' : ''}`}
+            aria-label={`Día ${day}${status ? `, ${status.completedColors.length} hábitos completados` : ''}${allMandatoryComplete ? ' ✓ Todos los obligatorios!' : ''}${hasNote ? ', con nota' : ''}`}
+            title={`Día ${day}${allMandatoryComplete ? ' ⭐' : ''}${isPaused ? ' ⏸ En pausa' : ''}`}
         >
             {/* Day number in center */}
             <span className="day-cell__number" aria-hidden="true">{day}</span>
             {/* Today indicator ring */}
             {isToday && <span className="day-cell__today-ring" aria-hidden="true" />}
+            {/* Partial progress bar */}
+            {partialProgress !== null && (
+                <span
+                    className="day-cell__progress"
+                    style={{ '--progress': `${Math.round(partialProgress * 100)}%` } as React.CSSProperties}
+                    aria-hidden="true"
+                />
+            )}
+            {/* Note marker */}
+            {hasNote && <span className="day-cell__note" aria-hidden="true" />}
             {/* Star for all mandatory complete */}
             {allMandatoryComplete && <span className="day-cell__star" aria-hidden="true">★</span>}
         </button>
     );
-}
+});
 
 export default DayCell;
@@ -1,24 +1,47 @@
+import { useRef } from 'react';
 import { useHabits } from '../../context';
+import { parseLocalDate } from '../../utils';
 import { Modal } from '../common/Modal';
+import { DayNoteEditor } from './DayNoteEditor';
+import type { Habit } from '../../types';
 
 interface DayModalProps {
     /** Date string "YYYY-MM-DD" */
     date: string;
     /** Close handler */
     onClose: () => void;
+    /** Only show this habit, without the note (quick-log from a reminder) */
+    habitId?: string;
 }
 
 /**
  * DayModal Component
  * 
  * Shows habit completion status for a specific day.
- * Allows toggling completion for each habit.
+ * Allows toggling completion for each habit, or entering
+ * the logged amount for numeric habits, and writing a note with a mood.
+ * Each habit can also be skipped (excused, with an optional reason):
+ * skipped days count neither as done nor as missed.
  */
-export function DayModal({ date, onClose }: DayModalProps) {
-    const { habits, isCompleted, toggleCompletion } = useHabits();
+export function DayModal({ date, onClose, habitId }: DayModalProps) {
+    const {
+        habits,
+        isCompleted,
+        toggleCompletion,
+        getValue,
+        setValue,
+        setSkipped,
+        isSkipped,
+        getSkipReason,
+        isTracked,
+        isScheduled,
+        getScheduleProgress
+    } = useHabits();
+    // Amounts typed but not saved yet, by habit ID
+    const valueDrafts = useRef(new Map<string, string>());
 
     // Parse date for display
-    const dateObj = new Date(date + 'T00:00:00');
+    const dateObj = parseLocalDate(date);
     const formattedDate = dateObj.toLocaleDateString('es-ES', {
         weekday: 'long',
         year: 'numeric',
@@ -30,14 +53,184 @@ export function DayModal({ date, onClose }: DayModalProps) {
         toggleCompletion(habitId, date);
     };
 
-    // Filter habits that were active on this date (startDate <= date)
-    // and separate mandatory from optional
-    const activeHabits = habits.filter(h => !h.startDate || h.startDate <= date);
+    // Saves only actual changes, so each one is a single write and undo entry
+    const handleValueChange = (habitId: string, value: number | null) => {
+        const next = value === null ? null : Math.max(0, value);
+        if (next !== (getValue(habitId, date) ?? null)) {
+            setValue(habitId, date, next);
+        }
+    };
+
+    // The number field saves on blur, Enter or when the modal closes; an empty field removes the day's log
+    const handleValueCommit = (habitId: string, text: string) => {
+        valueDrafts.current.delete(habitId);
+        const value = text.trim() === '' ? null : Number(text);
+        if (value === null || Number.isFinite(value)) {
+            handleValueChange(habitId, value);
+        }
+    };
+
+    // Escape and the close button don't blur the field: save what was typed first
+    const handleClose = () => {
+        for (const [habitId, text] of valueDrafts.current) {
+            handleValueCommit(habitId, text);
+        }
+        onClose();
+    };
+
+    // Saves the skip reason only when it changed, so blurring doesn't add undo entries
+    const handleReasonBlur = (habitId: string, reason: string) => {
+        if (reason.trim() !== (getSkipReason(habitId, date) ?? '')) {
+            setSkipped(habitId, date, true, reason);
+        }
+    };
+
+    // Third state next to done / not done
+    const renderSkip = (habit: Habit, skipped: boolean) => (
+        <>
+            <button
+                type="button"
+                className={`day-modal__skip-btn ${skipped ? 'day-modal__skip-btn--active' : ''}`}
+                onClick={() => setSkipped(habit.id, date, !skipped)}
+                aria-pressed={skipped}
+                aria-label={`Omitir ${habit.name}`}
+                title="Omitir: no cuenta como hecho ni como fallado"
+            >
+                ⤼
+            </button>
+            {skipped && (
+                <input
+                    type="text"
+                    className="habit-form__input day-modal__skip-reason"
+                    defaultValue={getSkipReason(habit.id, date) ?? ''}
+                    onBlur={(e) => handleReasonBlur(habit.id, e.target.value)}
+                    placeholder="Motivo (opcional)"
+                    aria-label={`Motivo para omitir ${habit.name}`}
+                    maxLength={60}
+                />
+            )}
+        </>
+    );
+
+    // Progress towards a weekly/monthly quota
+    const renderQuota = (habit: Habit) => {
+        const schedule = habit.schedule;
+        if (schedule?.type !== 'weeklyQuota' && schedule?.type !== 'monthlyQuota') {
+            return null;
+        }
+
+        const { done, times } = getScheduleProgress(habit, date);
+        return (
+            <span className="day-modal__habit-target">
+                {done}/{times} {schedule.type === 'weeklyQuota' ? 'esta semana' : 'este mes'}
+            </span>
+        );
+    };
+
+    const renderHabit = (habit: Habit) => {
+        const completed = isCompleted(habit.id, date);
+        const skipped = isSkipped(habit.id, date);
+        const stateClass = completed
+            ? 'day-modal__habit-btn--completed'
+            : skipped ? 'day-modal__habit-btn--skipped' : '';
+        const check = completed ? '✓' : skipped ? '–' : '○';
+
+        // Numeric habits: stepper instead of a toggle
+        if (habit.target) {
+            const value = getValue(habit.id, date);
+            return (
+                <li key={habit.id} className="day-modal__item">
+                    <div className={`day-modal__habit-btn day-modal__habit-btn--numeric ${stateClass}`}>
+                        <span
+                            className="day-modal__habit-dot"
+                            style={{ backgroundColor: habit.color }}
+                        />
+                        <span className="day-modal__habit-name">
+                            {habit.name}
+                            <span className="day-modal__habit-target">
+                                {habit.target.comparison === 'atLeast' ? '≥' : '≤'} {habit.target.value} {habit.target.unit}
+                            </span>
+                            {renderQuota(habit)}
+                        </span>
+                        <div className="day-modal__stepper">
+                            <button
+                                type="button"
+                                className="day-modal__stepper-btn"
+                                onClick={() => value !== undefined && handleValueChange(habit.id, value - 1)}
+                                disabled={value === undefined}
+                                aria-label={`Restar a ${habit.name}`}
+                            >
+                                −
+                            </button>
+                            {/* Keyed by the saved value so steppers and undo refresh the field */}
+                            <input
+                                key={value ?? ''}
+                                type="number"
+                                inputMode="decimal"
+                                min={0}
+                                step="any"
+                                className="day-modal__value-input"
+                                defaultValue={value ?? ''}
+                                placeholder="0"
+                                onChange={(e) => valueDrafts.current.set(habit.id, e.target.value)}
+                                onBlur={(e) => handleValueCommit(habit.id, e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') e.currentTarget.blur();
+                                }}
+                                aria-label={`${habit.name} (${habit.target.unit})`}
+                            />
+                            <button
+                                type="button"
+                                className="day-modal__stepper-btn"
+                                onClick={() => handleValueChange(habit.id, (value ?? 0) + 1)}
+                                aria-label={`Sumar a ${habit.name}`}
+                            >
+                                +
+                            </button>
+                        </div>
+                        <span className="day-modal__habit-check">
+                            {check}
+                        </span>
+                    </div>
+                    {renderSkip(habit, skipped)}
+                </li>
+            );
+        }
+
+        return (
+            <li key={habit.id} className="day-modal__item">
+                <button
+                    type="button"
+                    className={`day-modal__habit-btn ${stateClass}`}
+                    onClick={() => handleToggle(habit.id)}
+                >
+                    <span
+                        className="day-modal__habit-dot"
+                        style={{ backgroundColor: habit.color }}
+                    />
+                    <span className="day-modal__habit-name">
+                        {habit.name}
+                        {renderQuota(habit)}
+                    </span>
+                    <span className="day-modal__habit-check">
+                        {check}
+                    </span>
+                </button>
+                {renderSkip(habit, skipped)}
+            </li>
+        );
+    };
+
+    // Filter habits that were tracked on this date (between start and end date),
+    // split scheduled from unscheduled ones and separate mandatory from optional
+    const startedHabits = habits.filter(h => (!habitId || h.id === habitId) && isTracked(h, date));
+    const activeHabits = startedHabits.filter(h => isScheduled(h, date));
+    const unscheduledHabits = startedHabits.filter(h => !isScheduled(h, date));
     const mandatoryHabits = activeHabits.filter(h => h.mandatory);
     const optionalHabits = activeHabits.filter(h => !h.mandatory);
 
     return (
-        <Modal onClose={onClose} title={formattedDate}>
+        <Modal onClose={handleClose} title={formattedDate}>
             <div className="day-modal">
                 {/* Mandatory Habits */}
                 {mandatoryHabits.length > 0 && (
@@ -47,27 +240,7 @@ export function DayModal({ date, onClose }: DayModalProps) {
                             Obligatorios
                         </h4>
                         <ul className="day-modal__list">
-                            {mandatoryHabits.map(habit => {
-                                const completed = isCompleted(habit.id, date);
-                                return (
-                                    <li key={habit.id} className="day-modal__item">
-                                        <button
-                                            type="button"
-                                            className={`day-modal__habit-btn ${completed ? 'day-modal__habit-btn--completed' : ''}`}
-                                            onClick={() => handleToggle(habit.id)}
-                                        >
-                                            <span
-                                                className="day-modal__habit-dot"
-                                                style={{ backgroundColor: habit.color }}
-                                            />
-                                            <span className="day-modal__habit-name">{habit.name}</span>
-                                            <span className="day-modal__habit-check">
-                                                {completed ? '✓' : '○'}
-                                            </span>
-                                        </button>
-                                    </li>
-                                );
-                            })}
+                            {mandatoryHabits.map(renderHabit)}
                         </ul>
                     </section>
                 )}
@@ -77,30 +250,23 @@ export function DayModal({ date, onClose }: DayModalProps) {
                     <section className="day-modal__section">
                         <h4 className="day-modal__section-title">Opcionales</h4>
                         <ul className="day-modal__list">
-                            {optionalHabits.map(habit => {
-                                const completed = isCompleted(habit.id, date);
-                                return (
-                                    <li key={habit.id} className="day-modal__item">
-                                        <button
-                                            type="button"
-                                            className={`day-modal__habit-btn ${completed ? 'day-modal__habit-btn--completed' : ''}`}
-                                            onClick={() => handleToggle(habit.id)}
-                                        >
-                                            <span
-                                                className="day-modal__habit-dot"
-                                                style={{ backgroundColor: habit.color }}
-                                            />
-                                            <span className="day-modal__habit-name">{habit.name}</span>
-                                            <span className="day-modal__habit-check">
-                                                {completed ? '✓' : '○'}
-                                            </span>
-                                        </button>
-                                    </li>
-                                );
-                            })}
+                            {optionalHabits.map(renderHabit)}
                         </ul>
                     </section>
                 )}
+
+                {/* Habits not scheduled on this day (can still be logged) */}
+                {unscheduledHabits.length > 0 && (
+                    <section className="day-modal__section day-modal__section--unscheduled">
+                        <h4 className="day-modal__section-title">No programados hoy</h4>
+                        <ul className="day-modal__list">
+                            {unscheduledHabits.map(renderHabit)}
+                        </ul>
+                    </section>
+                )}
+
+                {/* Note and mood */}
+                {!habitId && <DayNoteEditor date={date} />}
             </div>
         </Modal>
     );
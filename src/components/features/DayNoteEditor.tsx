@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useHabits } from '../../context';
+import { MOOD_EMOJIS, type MoodRating } from '../../types';
+
+interface DayNoteEditorProps {
+    /** Date string "YYYY-MM-DD" */
+    date: string;
+}
+
+/**
+ * DayNoteEditor Component
+ * 
+ * Free-text note and 1-5 mood rating for a day.
+ * The text is saved when the field loses focus, the mood on click.
+ */
+export function DayNoteEditor({ date }: DayNoteEditorProps) {
+    const { getNote, saveNote } = useHabits();
+    const note = getNote(date);
+
+    const [text, setText] = useState(note?.text ?? '');
+    const [mood, setMood] = useState<MoodRating | undefined>(note?.mood);
+
+    const handleBlur = () => {
+        if (text.trim() !== (note?.text ?? '')) {
+            saveNote(date, text, mood);
+        }
+    };
+
+    const handleMood = (value: MoodRating) => {
+        // Clicking the selected mood clears it
+        const newMood = mood === value ? undefined : value;
+        setMood(newMood);
+        saveNote(date, text, newMood);
+    };
+
+    return (
+        <section className="day-modal__section day-note">
+            <h4 className="day-modal__section-title">Nota del día</h4>
+
+            <div className="day-note__moods" role="radiogroup" aria-label="Estado de ánimo">
+                {MOOD_EMOJIS.map((emoji, index) => {
+                    const value = (index + 1) as MoodRating;
+                    return (
+                        <button
+                            key={value}
+                            type="button"
+                            role="radio"
+                            aria-checked={mood === value}
+                            aria-label={`Ánimo ${value} de 5`}
+                            className={`day-note__mood ${mood === value ? 'day-note__mood--selected' : ''}`}
+                            onClick={() => handleMood(value)}
+                        >
+                            {emoji}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <textarea
+                className="habit-form__input day-note__text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={handleBlur}
+                placeholder="¿Cómo ha ido el día?"
+                rows={3}
+                maxLength={1000}
+            />
+        </section>
+    );
+}
+
+export default DayNoteEditor;
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { useHabits } from '../../context';
+import { useCsvExport } from '../../hooks';
+import { Modal } from '../common/Modal';
+import type { CsvLayout } from '../../types';
+
+interface ExportModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * ExportModal Component
+ * 
+ * CSV export of habit logs for spreadsheets:
+ * - Year selection
+ * - Long (one row per log) or wide (date × habit) layout
+ * - Optionally limited to the habits selected in the filter
+ */
+export function ExportModal({ onClose }: ExportModalProps) {
+    const { habits, currentYear, selectedHabitIds } = useHabits();
+    const { exportCsv } = useCsvExport();
+
+    const [year, setYear] = useState(currentYear);
+    const [layout, setLayout] = useState<CsvLayout>('long');
+    const [onlyFiltered, setOnlyFiltered] = useState(selectedHabitIds.length > 0);
+
+    // Years from the earliest habit start up to the current year
+    const years = useMemo(() => {
+        const lastYear = new Date().getFullYear();
+        const firstYear = habits.reduce(
+            (min, h) => Math.min(min, Number(h.startDate.slice(0, 4))),
+            Math.min(currentYear, lastYear)
+        );
+        return Array.from({ length: lastYear - firstYear + 1 }, (_, i) => lastYear - i);
+    }, [habits, currentYear]);
+
+    const handleExport = () => {
+        exportCsv({
+            year,
+            layout,
+            habitIds: onlyFiltered ? selectedHabitIds : [],
+        });
+    };
+
+    return (
+        <Modal onClose={onClose} title="Exportar CSV">
+            <div className="export">
+                {/* Year */}
+                <div className="habit-form__field">
+                    <label className="habit-form__label" htmlFor="export-year">
+                        Año
+                    </label>
+                    <select
+                        id="export-year"
+                        className="habit-form__input"
+                        value={year}
+                        onChange={(e) => setYear(Number(e.target.value))}
+                    >
+                        {years.map(y => (
+                            <option key={y} value={y}>{y}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {/* Layout */}
+                <div className="choice-list" role="radiogroup" aria-label="Formato">
+                    <label className="choice">
+                        <input
+                            type="radio"
+                            name="csv-layout"
+                            checked={layout === 'long'}
+                            onChange={() => setLayout('long')}
+                        />
+                        <span>
+                            <strong>Formato largo</strong>
+                            <span className="habit-form__hint">
+                                Una fila por registro: fecha, hábito, obligatorio, completado.
+                            </span>
+                        </span>
+                    </label>
+                    <label className="choice">
+                        <input
+                            type="radio"
+                            name="csv-layout"
+                            checked={layout === 'wide'}
+                            onChange={() => setLayout('wide')}
+                        />
+                        <span>
+                            <strong>Matriz</strong>
+                            <span className="habit-form__hint">
+                                Una fila por día y una columna por hábito (1/0).
+                            </span>
+                        </span>
+                    </label>
+                </div>
+
+                {/* Filter */}
+                <div className="habit-form__field habit-form__field--row">
+                    <label className="habit-form__label" htmlFor="export-filtered">
+                        Solo hábitos filtrados ({selectedHabitIds.length})
+                    </label>
+                    <button
+                        id="export-filtered"
+                        type="button"
+                        className={`habit-form__toggle ${onlyFiltered ? 'habit-form__toggle--active' : ''}`}
+                        onClick={() => setOnlyFiltered(!onlyFiltered)}
+                        role="switch"
+                        aria-checked={onlyFiltered}
+                        disabled={selectedHabitIds.length === 0}
+                    >
+                        <span className="habit-form__toggle-thumb" />
+                    </button>
+                </div>
+
+                {/* Actions */}
+                <div className="habit-form__actions">
+                    <button
+                        type="button"
+                        className="habit-form__btn habit-form__btn--secondary"
+                        onClick={onClose}
+                    >
+                        Cerrar
+                    </button>
+                    <button
+                        type="button"
+                        className="habit-form__btn habit-form__btn--primary"
+                        onClick={handleExport}
+                        disabled={habits.length === 0}
+                    >
+                        Descargar CSV
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
+
+export default ExportModal;
@@ -1,7 +1,11 @@
 import { useState } from 'react';
 import { useHabits } from '../../context';
+import { getToday } from '../../utils';
 import { Modal, ColorPicker } from '../common';
-import type { Habit } from '../../types';
+import { HabitTargetFields } from './HabitTargetFields';
+import { HabitScheduleFields } from './HabitScheduleFields';
+import { HabitReminderField } from './HabitReminderField';
+import type { Habit, HabitTarget, HabitSchedule } from '../../types';
 
 interface HabitEditModalProps {
     /** Habit to edit */
@@ -18,14 +22,24 @@ interface HabitEditModalProps {
  * - Change color
  * - Toggle mandatory
  * - Set start date
+ * - Set numeric target
+ * - Set schedule
+ * - Set a daily reminder time
+ * - Shows current/longest streaks and recent streak history
  */
 export function HabitEditModal({ habit, onClose }: HabitEditModalProps) {
-    const { updateHabit } = useHabits();
+    const { updateHabit, streaks } = useHabits();
+    const streak = streaks.byHabit[habit.id];
+    // Most recent runs first
+    const recentRuns = streak ? streak.history.slice(-5).reverse() : [];
 
     const [name, setName] = useState(habit.name);
     const [color, setColor] = useState<string>(habit.color);
     const [mandatory, setMandatory] = useState(habit.mandatory);
-    const [startDate, setStartDate] = useState(habit.startDate || habit.createdAt.split('T')[0]);
+    const [startDate, setStartDate] = useState(habit.startDate);
+    const [target, setTarget] = useState<HabitTarget | undefined>(habit.target);
+    const [schedule, setSchedule] = useState<HabitSchedule | undefined>(habit.schedule);
+    const [reminder, setReminder] = useState<string | undefined>(habit.reminder);
     const [error, setError] = useState<string | null>(null);
 
     const handleSave = () => {
@@ -34,18 +48,26 @@ export function HabitEditModal({ habit, onClose }: HabitEditModalProps) {
             return;
         }
 
+        if (target && target.value <= 0 && target.comparison === 'atLeast') {
+            setError('El objetivo debe ser mayor que 0');
+            return;
+        }
+
         updateHabit(habit.id, {
             name: name.trim(),
             color,
             mandatory,
             startDate,
+            target: target && { ...target, unit: target.unit.trim() },
+            schedule,
+            reminder,
         });
 
         onClose();
     };
 
     // Get max date (today)
-    const today = new Date().toISOString().split('T')[0];
+    const today = getToday();
 
     return (
         <Modal onClose={onClose} title="Editar hábito" wide>
@@ -84,6 +106,15 @@ export function HabitEditModal({ habit, onClose }: HabitEditModalProps) {
                     </button>
                 </div>
 
+                {/* Numeric target */}
+                <HabitTargetFields value={target} onChange={setTarget} />
+
+                {/* Schedule */}
+                <HabitScheduleFields value={schedule} onChange={setSchedule} />
+
+                {/* Reminder */}
+                <HabitReminderField value={reminder} onChange={setReminder} />
+
                 {/* Start date */}
                 <div className="habit-form__field">
                     <label className="habit-form__label" htmlFor="edit-start-date">
@@ -102,6 +133,33 @@ export function HabitEditModal({ habit, onClose }: HabitEditModalProps) {
                     />
                 </div>
 
+                {/* Streaks */}
+                {streak && (
+                    <div className="habit-edit__past-section">
+                        <h3 className="habit-edit__section-title">Rachas</h3>
+                        <div className="habit-edit__streaks">
+                            <div className="habit-edit__streak">
+                                <span className="habit-edit__streak-value">🔥 {streak.current}</span>
+                                <span className="habit-edit__streak-label">Actual</span>
+                            </div>
+                            <div className="habit-edit__streak">
+                                <span className="habit-edit__streak-value">🏆 {streak.longest}</span>
+                                <span className="habit-edit__streak-label">Récord</span>
+                            </div>
+                        </div>
+                        {recentRuns.length > 0 && (
+                            <ul className="habit-edit__streak-history">
+                                {recentRuns.map(run => (
+                                    <li key={run.start}>
+                                        {run.start === run.end ? run.start : `${run.start} → ${run.end}`}
+                                        <strong>{run.length}</strong>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
                 {/* Error message */}
                 {error && (
                     <p className="habit-form__error" role="alert">
@@ -9,7 +9,13 @@ import type { Habit } from '../../types';
  * Shows a list of habit chips that can be toggled on/off.
  */
 export function HabitFilter() {
-    const { habits, selectedHabitIds, toggleHabitFilter, clearHabitFilters } = useHabits();
+    const { habits: allHabits, currentYear, selectedHabitIds, toggleHabitFilter, clearHabitFilters } = useHabits();
+
+    // Archived habits can still be filtered in the years they were tracked
+    const habits = useMemo(
+        () => allHabits.filter(h => !h.endDate || h.endDate >= `${currentYear}-01-01`),
+        [allHabits, currentYear]
+    );
 
     // Sort habits: selected first, then by creation time (default) 
     // This keeps selected items easily accessible or we can just keep them in order
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useHabits } from '../../context';
 import { ColorPicker } from '../common';
-import { HABIT_COLORS } from '../../types';
+import { HabitTargetFields } from './HabitTargetFields';
+import { HabitScheduleFields } from './HabitScheduleFields';
+import { HABIT_COLORS, type HabitTarget, type HabitSchedule } from '../../types';
 
 interface HabitFormProps {
     /** Close handler */
@@ -17,6 +19,8 @@ interface HabitFormProps {
  * - Name input
  * - Color selection
  * - Mandatory toggle
+ * - Optional numeric target
+ * - Schedule
  */
 export function HabitForm({ onClose, onSuccess }: HabitFormProps) {
     const { createHabit } = useHabits();
@@ -24,6 +28,8 @@ export function HabitForm({ onClose, onSuccess }: HabitFormProps) {
     const [name, setName] = useState('');
     const [color, setColor] = useState<string>(HABIT_COLORS[0]);
     const [mandatory, setMandatory] = useState(false);
+    const [target, setTarget] = useState<HabitTarget | undefined>(undefined);
+    const [schedule, setSchedule] = useState<HabitSchedule | undefined>(undefined);
     const [error, setError] = useState<string | null>(null);
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -35,10 +41,17 @@ export function HabitForm({ onClose, onSuccess }: HabitFormProps) {
             return;
         }
 
+        if (target && target.value <= 0 && target.comparison === 'atLeast') {
+            setError('El objetivo debe ser mayor que 0');
+            return;
+        }
+
         createHabit({
             name: name.trim(),
             color,
             mandatory,
+            target: target && { ...target, unit: target.unit.trim() },
+            schedule,
         });
 
         onSuccess?.();
@@ -83,6 +96,12 @@ export function HabitForm({ onClose, onSuccess }: HabitFormProps) {
                 </button>
             </div>
 
+            {/* Numeric target */}
+            <HabitTargetFields value={target} onChange={setTarget} />
+
+            {/* Schedule */}
+            <HabitScheduleFields value={schedule} onChange={setSchedule} />
+
             {/* Error message */}
             {error && (
                 <p className="habit-form__error" role="alert">
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useHabits } from '../../context';
+import { useHabitHeatmaps } from '../../hooks';
+import { HeatmapStrip } from './HeatmapStrip';
+import { HabitFilter } from './HabitFilter';
+import { DayModal } from './DayModal';
+
+/**
+ * HabitHeatmap Component
+ *
+ * Contribution heatmap per habit over the last 365 days, each in the habit's
+ * own color, so slipping habits stand out at a glance. Intensity follows
+ * completion, or the logged amount of numeric habits.
+ * Clicking a day opens the DayModal.
+ */
+export function HabitHeatmap() {
+    const { habits, streaks, today } = useHabits();
+    const { rows, range } = useHabitHeatmaps();
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+    if (habits.length === 0) {
+        return (
+            <div className="habit-heatmap">
+                <div className="year-calendar__empty">
+                    <p>No tienes hábitos creados.</p>
+                    <p>Abre el menú para añadir tu primer hábito.</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="habit-heatmap">
+            <HabitFilter />
+
+            <div className="habit-heatmap__rows">
+                {rows.map(({ habit, cells }) => (
+                    <HeatmapStrip
+                        key={habit.id}
+                        start={range.start}
+                        end={range.end}
+                        today={today}
+                        cells={cells}
+                        color={habit.color}
+                        label={
+                            <>
+                                <span className="habit-heatmap__name" title={habit.name}>
+                                    {habit.name}
+                                    {habit.mandatory && <span className="year-calendar__mandatory-badge">!</span>}
+                                </span>
+                                {(streaks.byHabit[habit.id]?.current ?? 0) > 0 && (
+                                    <span className="habit-heatmap__streak" title="Racha actual">
+                                        🔥{streaks.byHabit[habit.id].current}
+                                    </span>
+                                )}
+                            </>
+                        }
+                        onDayClick={setSelectedDate}
+                    />
+                ))}
+            </div>
+
+            {/* Day detail modal */}
+            {selectedDate && (
+                <DayModal
+                    date={selectedDate}
+                    onClose={() => setSelectedDate(null)}
+                />
+            )}
+        </div>
+    );
+}
+
+export default HabitHeatmap;
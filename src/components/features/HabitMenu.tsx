@@ -2,6 +2,12 @@ import { useState } from 'react';
 import { useHabits } from '../../context';
 import { HabitForm } from './HabitForm';
 import { HabitEditModal } from './HabitEditModal';
+import { BackupModal } from './BackupModal';
+import { ExportModal } from './ExportModal';
+import { HistoryImportModal } from './HistoryImportModal';
+import { PauseModal } from './PauseModal';
+import { NotesModal } from './NotesModal';
+import { SyncModal } from './SyncModal';
 import { UpdateButton } from '../common';
 import type { Habit } from '../../types';
 
@@ -18,13 +24,20 @@ interface HabitMenuProps {
  * Slide-out menu for managing habits:
  * - List of existing habits
  * - Add new habit
- * - Edit/Delete habits
+ * - Edit/Archive habits
+ * - Restore/Delete archived habits
  */
 export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
-    const { habits, deleteHabit, currentYear, setYear } = useHabits();
+    const { habits, deleteHabit, archiveHabit, unarchiveHabit, currentYear, setYear, today } = useHabits();
     const [showForm, setShowForm] = useState(false);
     const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
     const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [showBackup, setShowBackup] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const [showHistoryImport, setShowHistoryImport] = useState(false);
+    const [showPauses, setShowPauses] = useState(false);
+    const [showNotes, setShowNotes] = useState(false);
+    const [showSync, setShowSync] = useState(false);
 
     const handleDelete = (id: string) => {
         if (deletingId === id) {
@@ -52,12 +65,13 @@ export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
     };
 
     // Current year check for navigation limits
-    const currentRealYear = new Date().getFullYear();
-    const canGoForward = currentYear < currentRealYear;
+    const canGoForward = currentYear < Number(today.slice(0, 4));
 
-    // Separate mandatory and optional habits
-    const mandatoryHabits = habits.filter(h => h.mandatory);
-    const optionalHabits = habits.filter(h => !h.mandatory);
+    // Separate archived habits, then mandatory and optional ones
+    const activeHabits = habits.filter(h => !h.archivedAt);
+    const archivedHabits = habits.filter(h => h.archivedAt);
+    const mandatoryHabits = activeHabits.filter(h => h.mandatory);
+    const optionalHabits = activeHabits.filter(h => !h.mandatory);
 
     if (!isOpen) return null;
 
@@ -149,11 +163,12 @@ export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
                                                     </button>
                                                     <button
                                                         type="button"
-                                                        className={`habit-menu__action-btn habit-menu__action-btn--delete ${deletingId === habit.id ? 'habit-menu__action-btn--confirm' : ''}`}
-                                                        onClick={() => handleDelete(habit.id)}
-                                                        aria-label={deletingId === habit.id ? 'Confirmar eliminar' : `Eliminar ${habit.name}`}
+                                                        className="habit-menu__action-btn"
+                                                        onClick={() => archiveHabit(habit.id)}
+                                                        aria-label={`Archivar ${habit.name}`}
+                                                        title="Archivar"
                                                     >
-                                                        {deletingId === habit.id ? '✓' : '🗑️'}
+                                                        📦
                                                     </button>
                                                 </div>
                                             </li>
@@ -185,6 +200,49 @@ export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
                                                     >
                                                         ⚙️
                                                     </button>
+                                                    <button
+                                                        type="button"
+                                                        className="habit-menu__action-btn"
+                                                        onClick={() => archiveHabit(habit.id)}
+                                                        aria-label={`Archivar ${habit.name}`}
+                                                        title="Archivar"
+                                                    >
+                                                        📦
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </section>
+                            )}
+
+                            {/* Archived Habits */}
+                            {archivedHabits.length > 0 && (
+                                <section className="habit-menu__section habit-menu__section--archived">
+                                    <h3 className="habit-menu__section-title">Archivados</h3>
+                                    <ul className="habit-menu__list">
+                                        {archivedHabits.map(habit => (
+                                            <li key={habit.id} className="habit-menu__item">
+                                                <div className="habit-menu__habit-info">
+                                                    <span
+                                                        className="habit-menu__habit-dot"
+                                                        style={{ backgroundColor: habit.color }}
+                                                    />
+                                                    <span className="habit-menu__habit-name">
+                                                        {habit.name}
+                                                        <span className="habit-menu__habit-meta">hasta {habit.endDate}</span>
+                                                    </span>
+                                                </div>
+                                                <div className="habit-menu__actions">
+                                                    <button
+                                                        type="button"
+                                                        className="habit-menu__action-btn"
+                                                        onClick={() => unarchiveHabit(habit.id)}
+                                                        aria-label={`Restaurar ${habit.name}`}
+                                                        title="Restaurar"
+                                                    >
+                                                        ♻️
+                                                    </button>
                                                     <button
                                                         type="button"
                                                         className={`habit-menu__action-btn habit-menu__action-btn--delete ${deletingId === habit.id ? 'habit-menu__action-btn--confirm' : ''}`}
@@ -217,6 +275,52 @@ export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
                                 + Añadir Hábito
                             </button>
 
+                            {/* Data section */}
+                            <div className="habit-menu__data">
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowPauses(true)}
+                                >
+                                    ⏸️ Pausas y vacaciones
+                                </button>
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowNotes(true)}
+                                >
+                                    📝 Notas y ánimo
+                                </button>
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowBackup(true)}
+                                >
+                                    💾 Copia de seguridad
+                                </button>
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowExport(true)}
+                                >
+                                    📊 Exportar CSV
+                                </button>
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowHistoryImport(true)}
+                                >
+                                    📥 Importar historial
+                                </button>
+                                <button
+                                    type="button"
+                                    className="habit-menu__data-btn"
+                                    onClick={() => setShowSync(true)}
+                                >
+                                    ☁️ Sincronización
+                                </button>
+                            </div>
+
                             {/* Updates section */}
                             <div className="habit-menu__updates">
                                 <UpdateButton />
@@ -233,6 +337,36 @@ export function HabitMenu({ isOpen, onClose }: HabitMenuProps) {
                     onClose={() => setEditingHabit(null)}
                 />
             )}
+
+            {/* Backup modal */}
+            {showBackup && (
+                <BackupModal onClose={() => setShowBackup(false)} />
+            )}
+
+            {/* CSV export modal */}
+            {showExport && (
+                <ExportModal onClose={() => setShowExport(false)} />
+            )}
+
+            {/* History import wizard */}
+            {showHistoryImport && (
+                <HistoryImportModal onClose={() => setShowHistoryImport(false)} />
+            )}
+
+            {/* Pauses */}
+            {showPauses && (
+                <PauseModal onClose={() => setShowPauses(false)} />
+            )}
+
+            {/* Notes search and mood summary */}
+            {showNotes && (
+                <NotesModal onClose={() => setShowNotes(false)} />
+            )}
+
+            {/* Server sync settings */}
+            {showSync && (
+                <SyncModal onClose={() => setShowSync(false)} />
+            )}
         </>
     );
 }
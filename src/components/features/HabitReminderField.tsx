@@ -0,0 +1,57 @@
+import { useNotificationPermission } from '../../hooks';
+
+interface HabitReminderFieldProps {
+    /** Reminder time "HH:MM" (undefined = no reminder) */
+    value: string | undefined;
+    /** Change handler */
+    onChange: (reminder: string | undefined) => void;
+}
+
+/**
+ * HabitReminderField Component
+ * 
+ * Daily reminder time of a habit, plus the notification permission request.
+ * Reminders are only sent on days the habit is due and not done yet.
+ */
+export function HabitReminderField({ value, onChange }: HabitReminderFieldProps) {
+    const { permission, requestPermission } = useNotificationPermission();
+
+    return (
+        <div className="habit-form__field">
+            <label className="habit-form__label" htmlFor="habit-reminder">
+                Recordatorio
+            </label>
+            <p className="habit-form__hint">
+                Aviso diario si todavía no lo has hecho. Déjalo vacío para desactivarlo.
+            </p>
+            <input
+                id="habit-reminder"
+                type="time"
+                className="habit-form__input"
+                value={value ?? ''}
+                onChange={(e) => onChange(e.target.value || undefined)}
+                disabled={permission === 'unsupported'}
+            />
+
+            {permission === 'unsupported' && (
+                <p className="habit-form__hint">Este navegador no permite notificaciones.</p>
+            )}
+            {permission === 'denied' && value && (
+                <p className="habit-form__error" role="alert">
+                    Las notificaciones están bloqueadas. Actívalas en los ajustes del navegador.
+                </p>
+            )}
+            {permission === 'default' && value && (
+                <button
+                    type="button"
+                    className="habit-form__btn habit-form__btn--secondary"
+                    onClick={() => void requestPermission()}
+                >
+                    🔔 Permitir notificaciones
+                </button>
+            )}
+        </div>
+    );
+}
+
+export default HabitReminderField;
@@ -0,0 +1,117 @@
+import type { HabitSchedule, HabitScheduleType } from '../../types';
+
+interface HabitScheduleFieldsProps {
+    /** Current schedule (undefined = daily) */
+    value: HabitSchedule | undefined;
+    /** Change handler */
+    onChange: (schedule: HabitSchedule | undefined) => void;
+}
+
+/**
+ * Weekday abbreviations in Spanish (starting Monday)
+ */
+const WEEKDAY_ABBR = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+/**
+ * Schedule types with their labels and default values
+ */
+const SCHEDULE_OPTIONS: { type: HabitScheduleType; label: string; defaults: HabitSchedule }[] = [
+    { type: 'daily', label: 'Todos los días', defaults: { type: 'daily' } },
+    { type: 'weekdays', label: 'Días concretos', defaults: { type: 'weekdays', days: [0, 2, 4] } },
+    { type: 'weeklyQuota', label: 'Veces por semana', defaults: { type: 'weeklyQuota', times: 3 } },
+    { type: 'monthlyQuota', label: 'Veces por mes', defaults: { type: 'monthlyQuota', times: 10 } },
+    { type: 'interval', label: 'Cada N días', defaults: { type: 'interval', every: 2 } },
+];
+
+/**
+ * HabitScheduleFields Component
+ * 
+ * Form fields to choose when a habit is due:
+ * - Every day
+ * - Specific weekdays
+ * - N times per week / month
+ * - Every N days
+ */
+export function HabitScheduleFields({ value, onChange }: HabitScheduleFieldsProps) {
+    const schedule: HabitSchedule = value ?? { type: 'daily' };
+
+    const handleTypeChange = (type: HabitScheduleType) => {
+        const option = SCHEDULE_OPTIONS.find(o => o.type === type)!;
+        onChange(type === 'daily' ? undefined : option.defaults);
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (schedule.type !== 'weekdays') return;
+
+        const days = schedule.days.includes(day)
+            ? schedule.days.filter(d => d !== day)
+            : [...schedule.days, day].sort();
+
+        // Keep at least one day selected
+        if (days.length > 0) {
+            onChange({ type: 'weekdays', days });
+        }
+    };
+
+    return (
+        <div className="habit-form__field">
+            <label className="habit-form__label" htmlFor="habit-schedule">
+                Frecuencia
+            </label>
+            <select
+                id="habit-schedule"
+                className="habit-form__input"
+                value={schedule.type}
+                onChange={(e) => handleTypeChange(e.target.value as HabitScheduleType)}
+            >
+                {SCHEDULE_OPTIONS.map(option => (
+                    <option key={option.type} value={option.type}>{option.label}</option>
+                ))}
+            </select>
+
+            {/* Specific weekdays */}
+            {schedule.type === 'weekdays' && (
+                <div className="habit-form__weekdays" role="group" aria-label="Días de la semana">
+                    {WEEKDAY_ABBR.map((abbr, day) => (
+                        <button
+                            key={day}
+                            type="button"
+                            className={`habit-form__weekday ${schedule.days.includes(day) ? 'habit-form__weekday--active' : ''}`}
+                            onClick={() => toggleWeekday(day)}
+                            aria-pressed={schedule.days.includes(day)}
+                        >
+                            {abbr}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Weekly / monthly quota */}
+            {(schedule.type === 'weeklyQuota' || schedule.type === 'monthlyQuota') && (
+                <input
+                    type="number"
+                    min={1}
+                    max={schedule.type === 'weeklyQuota' ? 7 : 31}
+                    className="habit-form__input"
+                    value={schedule.times}
+                    onChange={(e) => onChange({ ...schedule, times: Math.max(1, Number(e.target.value) || 1) })}
+                    aria-label="Veces"
+                />
+            )}
+
+            {/* Interval */}
+            {schedule.type === 'interval' && (
+                <input
+                    type="number"
+                    min={2}
+                    className="habit-form__input"
+                    value={schedule.every}
+                    onChange={(e) => onChange({ type: 'interval', every: Math.max(1, Number(e.target.value) || 1) })}
+                    aria-label="Cada cuántos días"
+                />
+            )}
+        </div>
+    );
+}
+
+export default HabitScheduleFields;
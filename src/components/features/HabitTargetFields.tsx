@@ -0,0 +1,90 @@
+import type { HabitTarget, TargetComparison } from '../../types';
+
+interface HabitTargetFieldsProps {
+    /** Current target (undefined = yes/no habit) */
+    value: HabitTarget | undefined;
+    /** Change handler */
+    onChange: (target: HabitTarget | undefined) => void;
+}
+
+/**
+ * Default target when a habit is switched to numeric
+ */
+const DEFAULT_TARGET: HabitTarget = {
+    value: 1,
+    unit: '',
+    comparison: 'atLeast',
+};
+
+/**
+ * HabitTargetFields Component
+ * 
+ * Form fields to turn a habit into a numeric one:
+ * - Numeric toggle
+ * - Comparison (at least / at most)
+ * - Target amount and unit
+ */
+export function HabitTargetFields({ value, onChange }: HabitTargetFieldsProps) {
+    const isNumeric = value !== undefined;
+
+    return (
+        <>
+            {/* Numeric toggle */}
+            <div className="habit-form__field habit-form__field--row">
+                <label className="habit-form__label" htmlFor="habit-numeric">
+                    Numérico
+                </label>
+                <button
+                    id="habit-numeric"
+                    type="button"
+                    className={`habit-form__toggle ${isNumeric ? 'habit-form__toggle--active' : ''}`}
+                    onClick={() => onChange(isNumeric ? undefined : DEFAULT_TARGET)}
+                    role="switch"
+                    aria-checked={isNumeric}
+                >
+                    <span className="habit-form__toggle-thumb" />
+                </button>
+            </div>
+
+            {/* Target */}
+            {value && (
+                <div className="habit-form__field">
+                    <label className="habit-form__label" htmlFor="habit-target-value">
+                        Objetivo
+                    </label>
+                    <div className="habit-form__target">
+                        <select
+                            className="habit-form__input"
+                            value={value.comparison}
+                            onChange={(e) => onChange({ ...value, comparison: e.target.value as TargetComparison })}
+                            aria-label="Comparación"
+                        >
+                            <option value="atLeast">Al menos</option>
+                            <option value="atMost">Como máximo</option>
+                        </select>
+                        <input
+                            id="habit-target-value"
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            step="any"
+                            className="habit-form__input"
+                            value={value.value}
+                            onChange={(e) => onChange({ ...value, value: Number(e.target.value) || 0 })}
+                        />
+                        <input
+                            type="text"
+                            className="habit-form__input"
+                            value={value.unit}
+                            onChange={(e) => onChange({ ...value, unit: e.target.value })}
+                            placeholder="Unidad"
+                            aria-label="Unidad"
+                        />
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
+
+export default HabitTargetFields;
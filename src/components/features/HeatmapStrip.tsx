@@ -0,0 +1,123 @@
+import { memo, useMemo, type ReactNode } from 'react';
+import { getDatesBetween, getWeekday, parseLocalDate } from '../../utils';
+import type { HeatmapCell } from '../../types';
+
+interface HeatmapStripProps {
+    /** First date shown "YYYY-MM-DD" */
+    start: string;
+    /** Last date shown "YYYY-MM-DD" */
+    end: string;
+    /** Today's date "YYYY-MM-DD": later days show as future */
+    today: string;
+    /** Cells by date; missing dates show as empty */
+    cells: Map<string, HeatmapCell>;
+    /** Base color of the filled cells */
+    color: string;
+    /** Label shown before the strip */
+    label?: ReactNode;
+    /** Click handler for days */
+    onDayClick?: (date: string) => void;
+}
+
+/**
+ * Short month names in Spanish
+ */
+const MONTH_ABBR = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+/**
+ * Intensity level (0-4) of a cell: any progress shows, only full progress is level 4
+ */
+function toLevel(cell: HeatmapCell | undefined): number {
+    if (!cell || cell.progress <= 0) return 0;
+    return Math.min(4, Math.max(1, Math.ceil(cell.progress * 4)));
+}
+
+/**
+ * Date format of the cell tooltips (one shared formatter, strips have hundreds of cells)
+ */
+const DATE_FORMAT = new Intl.DateTimeFormat('es-ES', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * HeatmapStrip Component
+ *
+ * Compact row of weeks (GitHub style): one column per week, Monday on top,
+ * each day a small square whose intensity follows its progress (four levels).
+ * Month names are shown above the first week of each month.
+ */
+export const HeatmapStrip = memo(function HeatmapStrip({
+    start,
+    end,
+    today,
+    cells,
+    color,
+    label,
+    onDayClick
+}: HeatmapStripProps) {
+    const { dates, offset, months } = useMemo(() => {
+        const dates = getDatesBetween(start, end);
+        const offset = getWeekday(start);
+
+        // Week column of the first day of each month
+        const months = dates
+            .map((date, i) => ({ date, column: Math.floor((i + offset) / 7) }))
+            .filter(({ date }) => date.endsWith('-01'));
+
+        // A month already started also gets a label when there is room for it
+        if (!start.endsWith('-01') && (months[0]?.column ?? Infinity) > 1) {
+            months.unshift({ date: start, column: 0 });
+        }
+
+        return { dates, offset, months };
+    }, [start, end]);
+
+    return (
+        <div className="heatmap" style={{ '--heatmap-color': color } as React.CSSProperties}>
+            {label && <div className="heatmap__label">{label}</div>}
+
+            <div className="heatmap__scroll">
+                <div className="heatmap__months" aria-hidden="true">
+                    {months.map(({ date, column }) => (
+                        <span key={date} className="heatmap__month" style={{ gridColumnStart: column + 1 }}>
+                            {MONTH_ABBR[Number(date.slice(5, 7)) - 1]}
+                        </span>
+                    ))}
+                </div>
+
+                <div className="heatmap__days">
+                    {/* Empty cells so the first day lands on its weekday */}
+                    {Array.from({ length: offset }, (_, i) => (
+                        <span key={`empty-${i}`} className="heatmap__empty" />
+                    ))}
+
+                    {dates.map(date => {
+                        const cell = cells.get(date);
+                        const isFuture = date > today;
+                        const title = [DATE_FORMAT.format(parseLocalDate(date)), cell?.title]
+                            .filter(Boolean)
+                            .join(' · ');
+
+                        return (
+                            <button
+                                key={date}
+                                type="button"
+                                className={`
+                heatmap__cell
+                heatmap__cell--level-${isFuture ? 0 : toLevel(cell)}
+                ${cell?.isPaused ? 'heatmap__cell--paused' : ''}
+                ${isFuture ? 'heatmap__cell--future' : ''}
+                ${date === today ? 'heatmap__cell--today' : ''}
+              `.trim()}
+                                onClick={() => onDayClick?.(date)}
+                                disabled={isFuture || !onDayClick}
+                                title={title}
+                                aria-label={title}
+                            />
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+});
+
+export default HeatmapStrip;
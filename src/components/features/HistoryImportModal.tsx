@@ -0,0 +1,340 @@
+import { useMemo, useState } from 'react';
+import { useHabits } from '../../context';
+import { useHistoryImport } from '../../hooks';
+import { Modal } from '../common/Modal';
+import type {
+    HistorySourceFormat,
+    GenericColumnMapping,
+    HabitMappingTarget,
+    HistoryImportResult
+} from '../../types';
+
+interface HistoryImportModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * Wizard steps
+ */
+type ImportStep = 'file' | 'columns' | 'habits' | 'done';
+
+/**
+ * Encode a mapping target as a <select> value
+ */
+function targetToValue(target: HabitMappingTarget): string {
+    return target.type === 'existing' ? target.habitId : target.type;
+}
+
+/**
+ * Decode a <select> value into a mapping target
+ */
+function valueToTarget(value: string): HabitMappingTarget {
+    if (value === 'new' || value === 'skip') {
+        return { type: value };
+    }
+    return { type: 'existing', habitId: value };
+}
+
+/**
+ * HistoryImportModal Component
+ * 
+ * Wizard to import history from other habit trackers:
+ * 1. Pick a Loop Habit Tracker "Checkmarks.csv" or a generic "date,habit,value" CSV
+ * 2. (Generic only) choose which column holds each field
+ * 3. Map every source habit to an existing habit, a new habit, or skip it
+ */
+export function HistoryImportModal({ onClose }: HistoryImportModalProps) {
+    const { habits } = useHabits();
+    const {
+        readFile,
+        guessColumns,
+        parseEntries,
+        getSourceHabits,
+        suggestMapping,
+        importHistory
+    } = useHistoryImport();
+
+    const [step, setStep] = useState<ImportStep>('file');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [format, setFormat] = useState<HistorySourceFormat>('generic');
+    const [columns, setColumns] = useState<GenericColumnMapping>({ date: 0, habit: 1, value: 2 });
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<Record<string, HabitMappingTarget>>({});
+    const [result, setResult] = useState<HistoryImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const entries = useMemo(
+        () => (rows.length > 0 ? parseEntries(rows, format, columns, hasHeader) : []),
+        [rows, format, columns, hasHeader, parseEntries]
+    );
+    const sourceHabits = useMemo(() => getSourceHabits(entries), [entries, getSourceHabits]);
+
+    const goToHabits = () => {
+        if (sourceHabits.length === 0) {
+            setError('No se encontraron registros válidos en el archivo');
+            return;
+        }
+        setError(null);
+        setMapping(suggestMapping(sourceHabits));
+        setStep('habits');
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        setError(null);
+
+        if (!file) return;
+
+        const { rows: fileRows, format: detected } = await readFile(file);
+
+        if (fileRows.length < 2) {
+            setError('El archivo está vacío');
+            return;
+        }
+
+        setRows(fileRows);
+        setFormat(detected);
+        setColumns(guessColumns(fileRows[0]));
+    };
+
+    const handleNext = () => {
+        if (format === 'generic') {
+            setStep('columns');
+        } else {
+            goToHabits();
+        }
+    };
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        setResult(await importHistory(entries, mapping));
+        setIsImporting(false);
+        setStep('done');
+    };
+
+    const columnOptions = (rows[0] ?? []).map((name, i) => (
+        <option key={i} value={i}>
+            {hasHeader ? name || `Columna ${i + 1}` : `Columna ${i + 1} (${name})`}
+        </option>
+    ));
+
+    const logsToImport = entries.filter(entry => mapping[entry.sourceHabit]?.type !== 'skip').length;
+
+    return (
+        <Modal onClose={onClose} title="Importar historial" wide>
+            <div className="history-import">
+                {/* Step 1: file */}
+                {step === 'file' && (
+                    <>
+                        <p className="habit-edit__section-desc">
+                            Importa el archivo <strong>Checkmarks.csv</strong> exportado por Loop Habit Tracker
+                            o un CSV con columnas de fecha, hábito y valor.
+                        </p>
+                        <input
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="habit-form__input"
+                            onChange={handleFileChange}
+                            aria-label="Seleccionar archivo CSV"
+                        />
+
+                        {rows.length > 0 && (
+                            <div className="choice-list" role="radiogroup" aria-label="Formato del archivo">
+                                <label className="choice">
+                                    <input
+                                        type="radio"
+                                        name="history-format"
+                                        checked={format === 'loop'}
+                                        onChange={() => setFormat('loop')}
+                                    />
+                                    <span>
+                                        <strong>Loop Habit Tracker</strong>
+                                        <span className="habit-form__hint">
+                                            Una columna por hábito ({rows[0].length - 1} detectadas).
+                                        </span>
+                                    </span>
+                                </label>
+                                <label className="choice">
+                                    <input
+                                        type="radio"
+                                        name="history-format"
+                                        checked={format === 'generic'}
+                                        onChange={() => setFormat('generic')}
+                                    />
+                                    <span>
+                                        <strong>CSV genérico</strong>
+                                        <span className="habit-form__hint">
+                                            Una fila por registro: fecha, hábito, valor.
+                                        </span>
+                                    </span>
+                                </label>
+                            </div>
+                        )}
+
+                        <div className="habit-form__actions">
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--secondary"
+                                onClick={onClose}
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--primary"
+                                onClick={handleNext}
+                                disabled={rows.length === 0}
+                            >
+                                Siguiente
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {/* Step 2: generic columns */}
+                {step === 'columns' && (
+                    <>
+                        <div className="habit-form__field habit-form__field--row">
+                            <label className="habit-form__label" htmlFor="history-header">
+                                La primera fila es cabecera
+                            </label>
+                            <button
+                                id="history-header"
+                                type="button"
+                                className={`habit-form__toggle ${hasHeader ? 'habit-form__toggle--active' : ''}`}
+                                onClick={() => setHasHeader(!hasHeader)}
+                                role="switch"
+                                aria-checked={hasHeader}
+                            >
+                                <span className="habit-form__toggle-thumb" />
+                            </button>
+                        </div>
+
+                        {(['date', 'habit', 'value'] as const).map(field => (
+                            <div key={field} className="habit-form__field">
+                                <label className="habit-form__label" htmlFor={`history-col-${field}`}>
+                                    {field === 'date' ? 'Fecha' : field === 'habit' ? 'Hábito' : 'Valor'}
+                                </label>
+                                <select
+                                    id={`history-col-${field}`}
+                                    className="habit-form__input"
+                                    value={columns[field]}
+                                    onChange={(e) => setColumns({ ...columns, [field]: Number(e.target.value) })}
+                                >
+                                    {columnOptions}
+                                </select>
+                            </div>
+                        ))}
+
+                        <p className="habit-form__hint">
+                            {entries.length} registros válidos · {sourceHabits.length} hábitos
+                        </p>
+
+                        {error && (
+                            <p className="habit-form__error" role="alert">{error}</p>
+                        )}
+
+                        <div className="habit-form__actions">
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--secondary"
+                                onClick={() => setStep('file')}
+                            >
+                                Atrás
+                            </button>
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--primary"
+                                onClick={goToHabits}
+                            >
+                                Siguiente
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {/* Step 3: habit mapping */}
+                {step === 'habits' && (
+                    <>
+                        <p className="habit-edit__section-desc">
+                            Elige a qué hábito van los registros de cada hábito del archivo.
+                            La fecha de inicio se ajustará al primer día completado que se importe.
+                        </p>
+                        <ul className="history-import__habits">
+                            {sourceHabits.map(source => (
+                                <li key={source.name} className="history-import__habit">
+                                    <div className="history-import__source">
+                                        <span className="history-import__name">{source.name}</span>
+                                        <span className="habit-form__hint">
+                                            {source.firstDate
+                                                ? `${source.entries} registros, completado desde ${source.firstDate}`
+                                                : `${source.entries} registros, ninguno completado`}
+                                        </span>
+                                    </div>
+                                    <select
+                                        className="habit-form__input"
+                                        value={targetToValue(mapping[source.name] ?? { type: 'skip' })}
+                                        onChange={(e) => setMapping({
+                                            ...mapping,
+                                            [source.name]: valueToTarget(e.target.value),
+                                        })}
+                                        aria-label={`Destino de ${source.name}`}
+                                    >
+                                        <option value="new">+ Nuevo hábito</option>
+                                        {habits.map(habit => (
+                                            <option key={habit.id} value={habit.id}>{habit.name}</option>
+                                        ))}
+                                        <option value="skip">No importar</option>
+                                    </select>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="habit-form__actions">
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--secondary"
+                                onClick={() => setStep(format === 'generic' ? 'columns' : 'file')}
+                            >
+                                Atrás
+                            </button>
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--primary"
+                                onClick={handleImport}
+                                disabled={isImporting || logsToImport === 0}
+                            >
+                                {isImporting ? 'Importando...' : `Importar ${logsToImport} registros`}
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {/* Step 4: done */}
+                {step === 'done' && result && (
+                    <>
+                        <p className="habit-form__success" role="status">
+                            {result.logsWritten} registros importados
+                            {result.habitsCreated > 0 && ` · ${result.habitsCreated} hábitos creados`}
+                            {result.logsKept > 0 && ` · ${result.logsKept} registros existentes conservados`}
+                        </p>
+                        <div className="habit-form__actions">
+                            <button
+                                type="button"
+                                className="habit-form__btn habit-form__btn--primary"
+                                onClick={onClose}
+                            >
+                                Cerrar
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </Modal>
+    );
+}
+
+export default HistoryImportModal;
@@ -0,0 +1,31 @@
+import { useHabits } from '../../context';
+
+/**
+ * LoadErrorNotice Component
+ *
+ * Shown instead of silently empty views when the stored data could not be
+ * loaded, with a retry button.
+ */
+export function LoadErrorNotice() {
+    const { loadError, isLoading, refreshData } = useHabits();
+
+    if (!loadError) {
+        return null;
+    }
+
+    return (
+        <div className="load-error" role="alert">
+            <p className="load-error__message">{loadError}</p>
+            <button
+                type="button"
+                className="habit-form__btn habit-form__btn--primary"
+                onClick={refreshData}
+                disabled={isLoading}
+            >
+                {isLoading ? 'Cargando...' : 'Reintentar'}
+            </button>
+        </div>
+    );
+}
+
+export default LoadErrorNotice;
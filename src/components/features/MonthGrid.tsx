@@ -1,6 +1,7 @@
-import { useMemo } from 'react';
+import { memo, useMemo } from 'react';
+import { getDaysInMonth, getWeekday, toDateKey } from '../../utils';
 import { DayCell } from './DayCell';
-import type { DayStatus } from '../../types';
+import type { DateRange, DayStatus } from '../../types';
 
 interface MonthGridProps {
     /** Year */
@@ -9,6 +10,14 @@ interface MonthGridProps {
     month: number;
     /** Day status map for the year */
     dayStatusMap: Map<string, DayStatus>;
+    /** Today's date "YYYY-MM-DD": later days show as future */
+    today: string;
+    /** Dates that have a note */
+    noteDates?: Set<string>;
+    /** Only show the days in this range (rolling view); others stay blank */
+    range?: DateRange;
+    /** Show the year next to the month name */
+    showYear?: boolean;
     /** Click handler for days */
     onDayClick?: (date: string) => void;
 }
@@ -27,51 +36,83 @@ const MONTH_NAMES = [
  */
 const WEEKDAY_ABBR = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
 
+/**
+ * Whether two renders of a month would show the same days.
+ * Only the statuses of the month's own days are compared, so a change
+ * elsewhere in the year's map doesn't re-render the month.
+ */
+function areMonthPropsEqual(prev: MonthGridProps, next: MonthGridProps): boolean {
+    if (
+        prev.year !== next.year ||
+        prev.month !== next.month ||
+        prev.today !== next.today ||
+        prev.noteDates !== next.noteDates ||
+        prev.onDayClick !== next.onDayClick ||
+        prev.range?.start !== next.range?.start ||
+        prev.range?.end !== next.range?.end ||
+        prev.showYear !== next.showYear
+    ) {
+        return false;
+    }
+
+    if (prev.dayStatusMap === next.dayStatusMap) {
+        return true;
+    }
+
+    for (let day = 1; day <= getDaysInMonth(next.year, next.month); day++) {
+        const date = toDateKey(next.year, next.month, day);
+        if (prev.dayStatusMap.get(date) !== next.dayStatusMap.get(date)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
 /**
  * MonthGrid Component
  * 
  * Displays a single month with all its days as dots.
  * Days are aligned with their actual weekday positions.
+ * Memoised per month: see areMonthPropsEqual.
  */
-export function MonthGrid({ year, month, dayStatusMap, onDayClick }: MonthGridProps) {
-    const today = useMemo(() => new Date(), []);
-    const todayString = useMemo(() => {
-        const y = today.getFullYear();
-        const m = String(today.getMonth() + 1).padStart(2, '0');
-        const d = String(today.getDate()).padStart(2, '0');
-        return `${y}-${m}-${d}`;
-    }, [today]);
-
+export const MonthGrid = memo(function MonthGrid({
+    year,
+    month,
+    dayStatusMap,
+    today,
+    noteDates,
+    range,
+    showYear = false,
+    onDayClick
+}: MonthGridProps) {
     // Calculate the starting day of week (0 = Monday, 6 = Sunday)
-    const startDayOfWeek = useMemo(() => {
-        const firstDay = new Date(year, month, 1).getDay();
-        // Convert from Sunday=0 to Monday=0 format
-        return firstDay === 0 ? 6 : firstDay - 1;
-    }, [year, month]);
+    const startDayOfWeek = useMemo(() => getWeekday(toDateKey(year, month, 1)), [year, month]);
 
     const days = useMemo(() => {
-        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        const daysInMonth = getDaysInMonth(year, month);
         const result: Array<{
             day: number;
             date: string;
             isToday: boolean;
             isFuture: boolean;
+            isOutside: boolean;
         }> = [];
 
         for (let day = 1; day <= daysInMonth; day++) {
-            const dateString = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-            const dayDate = new Date(year, month, day);
+            const dateString = toDateKey(year, month, day);
 
             result.push({
                 day,
                 date: dateString,
-                isToday: dateString === todayString,
-                isFuture: dayDate > today,
+                isToday: dateString === today,
+                isFuture: dateString > today,
+                isOutside: range !== undefined && (dateString < range.start || dateString > range.end),
             });
         }
 
         return result;
-    }, [year, month, today, todayString]);
+    }, [year, month, today, range]);
 
     // Create empty placeholder cells for alignment
     const emptySlots = useMemo(() => {
@@ -80,7 +121,9 @@ export function MonthGrid({ year, month, dayStatusMap, onDayClick }: MonthGridPr
 
     return (
         <div className="month-grid">
-            <h3 className="month-grid__title">{MONTH_NAMES[month]}</h3>
+            <h3 className="month-grid__title">
+                {MONTH_NAMES[month]}{showYear && ` ${year}`}
+            </h3>
 
             {/* Weekday headers */}
             <div className="month-grid__weekdays">
@@ -96,7 +139,9 @@ export function MonthGrid({ year, month, dayStatusMap, onDayClick }: MonthGridPr
                 ))}
 
                 {/* Actual day cells */}
-                {days.map(({ day, date, isToday, isFuture }) => (
+                {days.map(({ day, date, isToday, isFuture, isOutside }) => isOutside ? (
+                    <div key={date} className="month-grid__empty" />
+                ) : (
                     <DayCell
                         key={date}
                         day={day}
@@ -104,12 +149,13 @@ export function MonthGrid({ year, month, dayStatusMap, onDayClick }: MonthGridPr
                         status={dayStatusMap.get(date)}
                         isToday={isToday}
                         isFuture={isFuture}
+                        hasNote={noteDates?.has(date)}
                         onClick={onDayClick}
                     />
                 ))}
             </div>
         </div>
     );
-}
+}, areMonthPropsEqual);
 
 export default MonthGrid;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useHabits } from '../../context';
+import { DayModal } from './DayModal';
+import { getDaysInMonth, getWeekday, toDateKey } from '../../utils';
+import { HabitFilter } from './HabitFilter';
+
+/**
+ * Month names in Spanish
+ */
+const MONTH_NAMES = [
+    'Enero', 'Febrero', 'Marzo', 'Abril',
+    'Mayo', 'Junio', 'Julio', 'Agosto',
+    'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'
+];
+
+/**
+ * Weekday abbreviations in Spanish (starting Monday)
+ */
+const WEEKDAY_ABBR = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+/**
+ * MonthView Component
+ *
+ * Large single-month calendar. Each day lists the habits completed
+ * on it as labelled chips; clicking a day opens the DayModal.
+ */
+export function MonthView() {
+    const { habits, selectedHabitIds, isCompleted, noteDates, today } = useHabits();
+    const [viewed, setViewed] = useState(() => ({
+        year: Number(today.slice(0, 4)),
+        month: Number(today.slice(5, 7)) - 1,
+    }));
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+    const visibleHabits = selectedHabitIds.length > 0
+        ? habits.filter(h => selectedHabitIds.includes(h.id))
+        : habits;
+
+    // Weekday of the first day (0 = Monday, 6 = Sunday)
+    const startDayOfWeek = getWeekday(toDateKey(viewed.year, viewed.month, 1));
+    const daysInMonth = getDaysInMonth(viewed.year, viewed.month);
+
+    // Completed habits per day (indexed lookups, cheap enough for every render)
+    const completedByDay = Array.from({ length: daysInMonth }, (_, i) => {
+        const date = toDateKey(viewed.year, viewed.month, i + 1);
+        return visibleHabits.filter(h => isCompleted(h.id, date));
+    });
+
+    const goToMonth = (offset: number) => {
+        setViewed(prev => {
+            const date = new Date(prev.year, prev.month + offset, 1);
+            return { year: date.getFullYear(), month: date.getMonth() };
+        });
+    };
+
+    return (
+        <div className="month-view">
+            {habits.length > 0 && <HabitFilter />}
+
+            {/* Month navigation */}
+            <div className="view-nav">
+                <button
+                    type="button"
+                    className="view-nav__btn"
+                    onClick={() => goToMonth(-1)}
+                    aria-label="Mes anterior"
+                >
+                    ‹
+                </button>
+                <h2 className="view-nav__title">{MONTH_NAMES[viewed.month]} {viewed.year}</h2>
+                <button
+                    type="button"
+                    className="view-nav__btn"
+                    onClick={() => goToMonth(1)}
+                    aria-label="Mes siguiente"
+                >
+                    ›
+                </button>
+            </div>
+
+            <div className="month-view__weekdays">
+                {WEEKDAY_ABBR.map(day => (
+                    <span key={day} className="month-view__weekday">{day}</span>
+                ))}
+            </div>
+
+            <div className="month-view__days">
+                {Array.from({ length: startDayOfWeek }, (_, i) => (
+                    <div key={`empty-${i}`} className="month-view__empty" />
+                ))}
+
+                {completedByDay.map((completed, i) => {
+                    const date = toDateKey(viewed.year, viewed.month, i + 1);
+                    const isFuture = date > today;
+
+                    return (
+                        <button
+                            key={date}
+                            type="button"
+                            className={`month-view__day ${date === today ? 'month-view__day--today' : ''}`}
+                            onClick={() => setSelectedDate(date)}
+                            disabled={isFuture || habits.length === 0}
+                        >
+                            <span className="month-view__day-number">
+                                {i + 1}
+                                {noteDates.has(date) && <span className="month-view__note" title="Tiene nota">📝</span>}
+                            </span>
+                            <span className="month-view__chips">
+                                {completed.map(habit => (
+                                    <span
+                                        key={habit.id}
+                                        className="month-view__chip"
+                                        style={{ backgroundColor: habit.color }}
+                                        title={habit.name}
+                                    >
+                                        {habit.name}
+                                    </span>
+                                ))}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Day detail modal */}
+            {selectedDate && (
+                <DayModal
+                    date={selectedDate}
+                    onClose={() => setSelectedDate(null)}
+                />
+            )}
+        </div>
+    );
+}
+
+export default MonthView;
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { HeatmapStrip } from './HeatmapStrip';
+import type { DateRange, DayStatus, HeatmapCell } from '../../types';
+
+interface MultiYearHeatmapProps {
+    /** Dates to show, usually whole years */
+    range: DateRange;
+    /** Day status map covering the range */
+    dayStatusMap: Map<string, DayStatus>;
+    /** Today's date "YYYY-MM-DD" */
+    today: string;
+    /** Click handler for days */
+    onDayClick?: (date: string) => void;
+}
+
+/**
+ * Heatmap cell of a day: intensity follows the day's overall progress
+ */
+function toHeatmapCell(status: DayStatus): HeatmapCell {
+    const total = status.mandatoryTotal + status.optionalTotal;
+    const completed = status.mandatoryCompleted + status.optionalCompleted;
+
+    return {
+        progress: status.progress,
+        isPaused: status.isPaused,
+        title: status.isPaused ? 'En pausa' : `${completed}/${total} hábitos`,
+    };
+}
+
+/**
+ * MultiYearHeatmap Component
+ *
+ * Compact view of every year with data: one heatmap strip per year,
+ * most recent first, so long-term patterns fit on one screen.
+ */
+export function MultiYearHeatmap({ range, dayStatusMap, today, onDayClick }: MultiYearHeatmapProps) {
+    const cells = useMemo(() => {
+        const result = new Map<string, HeatmapCell>();
+        for (const [date, status] of dayStatusMap) {
+            result.set(date, toHeatmapCell(status));
+        }
+        return result;
+    }, [dayStatusMap]);
+
+    const firstYear = Number(range.start.slice(0, 4));
+    const lastYear = Number(range.end.slice(0, 4));
+    const years = Array.from({ length: lastYear - firstYear + 1 }, (_, i) => lastYear - i);
+
+    return (
+        <div className="multi-year">
+            {years.map(year => (
+                <HeatmapStrip
+                    key={year}
+                    start={`${year}-01-01` < range.start ? range.start : `${year}-01-01`}
+                    end={`${year}-12-31` > range.end ? range.end : `${year}-12-31`}
+                    today={today}
+                    cells={cells}
+                    color="var(--color-success)"
+                    label={String(year)}
+                    onDayClick={onDayClick}
+                />
+            ))}
+        </div>
+    );
+}
+
+export default MultiYearHeatmap;
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useNotes } from '../../hooks';
+import { Modal } from '../common/Modal';
+import { DayModal } from './DayModal';
+import { MOOD_EMOJIS } from '../../types';
+
+interface NotesModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * Describe a correlation coefficient in words
+ */
+function describeCorrelation(correlation: number): string {
+    const strength = Math.abs(correlation);
+
+    if (strength < 0.2) return 'Sin relación clara entre tu ánimo y los obligatorios.';
+    if (correlation > 0) return 'Los días de mejor ánimo cumples más obligatorios.';
+    return 'Los días de peor ánimo cumples más obligatorios.';
+}
+
+/**
+ * NotesModal Component
+ *
+ * Journal of day notes:
+ * - Search across every note
+ * - Mood vs. mandatory-habit completion summary
+ * - Opening a result shows that day
+ */
+export function NotesModal({ onClose }: NotesModalProps) {
+    const [query, setQuery] = useState('');
+    const [openDate, setOpenDate] = useState<string | null>(null);
+    const { results, moodSummary } = useNotes(query);
+
+    const ratedDays = moodSummary.buckets.reduce((sum, b) => sum + b.days, 0);
+
+    // Show the selected day instead of the list (modals don't stack)
+    if (openDate) {
+        return (
+            <DayModal
+                date={openDate}
+                onClose={() => setOpenDate(null)}
+            />
+        );
+    }
+
+    return (
+        <Modal onClose={onClose} title="Notas del día">
+            <div className="backup">
+                {/* Mood summary */}
+                <section className="backup__section">
+                    <h3 className="stats__title">Ánimo y obligatorios</h3>
+                    {ratedDays === 0 ? (
+                        <p className="habit-form__hint">
+                            Puntúa tu ánimo en el detalle de cada día para ver cómo se relaciona con tus hábitos.
+                        </p>
+                    ) : (
+                        <>
+                            <ul className="mood-summary">
+                                {moodSummary.buckets.map(bucket => (
+                                    <li key={bucket.mood} className="mood-summary__row">
+                                        <span aria-label={`Ánimo ${bucket.mood}`}>{MOOD_EMOJIS[bucket.mood - 1]}</span>
+                                        <div className="stats__rate-track">
+                                            <div
+                                                className="stats__rate-fill mood-summary__fill"
+                                                style={{ width: `${Math.round((bucket.mandatoryRate ?? 0) * 100)}%` }}
+                                            />
+                                        </div>
+                                        <span className="mood-summary__value">
+                                            {bucket.mandatoryRate === null ? '–' : `${Math.round(bucket.mandatoryRate * 100)}%`}
+                                            <small> · {bucket.days} d</small>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                            {moodSummary.correlation !== null && (
+                                <p className="habit-form__hint">{describeCorrelation(moodSummary.correlation)}</p>
+                            )}
+                        </>
+                    )}
+                </section>
+
+                {/* Search */}
+                <section className="backup__section">
+                    <input
+                        type="search"
+                        className="habit-form__input"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Buscar en las notas..."
+                        aria-label="Buscar en las notas"
+                    />
+
+                    {results.length === 0 ? (
+                        <p className="habit-form__hint">
+                            {query ? 'Ninguna nota coincide con la búsqueda.' : 'Todavía no has escrito notas.'}
+                        </p>
+                    ) : (
+                        <ul className="note-list">
+                            {results.map(note => (
+                                <li key={note.date}>
+                                    <button
+                                        type="button"
+                                        className="note-list__item"
+                                        onClick={() => setOpenDate(note.date)}
+                                    >
+                                        <span className="note-list__date">
+                                            {note.date}
+                                            {note.mood && ` ${MOOD_EMOJIS[note.mood - 1]}`}
+                                        </span>
+                                        {note.text && <span className="note-list__text">{note.text}</span>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </div>
+
+        </Modal>
+    );
+}
+
+export default NotesModal;
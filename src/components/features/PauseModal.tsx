@@ -0,0 +1,159 @@
+import { useState, type FormEvent } from 'react';
+import { useHabits } from '../../context';
+import { getToday } from '../../utils';
+import { Modal } from '../common/Modal';
+
+interface PauseModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * PauseModal Component
+ *
+ * Vacation mode: pause every habit or a single one for a date range.
+ * Paused days are not due, so they don't count as missed or break streaks.
+ * - List of existing pauses with delete
+ * - Form to add a new pause
+ */
+export function PauseModal({ onClose }: PauseModalProps) {
+    const { habits, pauses, addPause, deletePause } = useHabits();
+
+    const today = getToday();
+    const [start, setStart] = useState(today);
+    const [end, setEnd] = useState(today);
+    const [habitId, setHabitId] = useState('');
+    const [reason, setReason] = useState('');
+
+    const activeHabits = habits.filter(h => !h.archivedAt);
+    const sortedPauses = [...pauses].sort((a, b) => b.start.localeCompare(a.start));
+
+    const getScopeLabel = (id: string | undefined) => {
+        if (!id) return 'Todos los hábitos';
+        return habits.find(h => h.id === id)?.name ?? 'Hábito eliminado';
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+
+        addPause({
+            start,
+            end,
+            habitId: habitId || undefined,
+            reason: reason.trim() || undefined,
+        });
+        setReason('');
+    };
+
+    return (
+        <Modal onClose={onClose} title="Pausas y vacaciones">
+            <div className="backup">
+                {/* Existing pauses */}
+                <section className="backup__section">
+                    {sortedPauses.length === 0 ? (
+                        <p className="habit-form__hint">No hay pausas. Los días en pausa no cuentan como fallados.</p>
+                    ) : (
+                        <ul className="pause-list">
+                            {sortedPauses.map(pause => (
+                                <li key={pause.id} className="pause-list__item">
+                                    <div className="pause-list__info">
+                                        <strong>
+                                            {pause.start === pause.end ? pause.start : `${pause.start} → ${pause.end}`}
+                                        </strong>
+                                        <span className="pause-list__meta">
+                                            {getScopeLabel(pause.habitId)}
+                                            {pause.reason && ` · ${pause.reason}`}
+                                        </span>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        className="habit-menu__action-btn habit-menu__action-btn--delete"
+                                        onClick={() => deletePause(pause.id)}
+                                        aria-label="Eliminar pausa"
+                                    >
+                                        🗑️
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {/* New pause */}
+                <form className="backup__section" onSubmit={handleSubmit}>
+                    <div className="pause-form__dates">
+                        <div className="habit-form__field">
+                            <label className="habit-form__label" htmlFor="pause-start">Desde</label>
+                            <input
+                                id="pause-start"
+                                type="date"
+                                className="habit-form__input"
+                                value={start}
+                                onChange={(e) => setStart(e.target.value)}
+                                required
+                            />
+                        </div>
+                        <div className="habit-form__field">
+                            <label className="habit-form__label" htmlFor="pause-end">Hasta</label>
+                            <input
+                                id="pause-end"
+                                type="date"
+                                className="habit-form__input"
+                                value={end}
+                                onChange={(e) => setEnd(e.target.value)}
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="habit-form__field">
+                        <label className="habit-form__label" htmlFor="pause-habit">Hábitos</label>
+                        <select
+                            id="pause-habit"
+                            className="habit-form__input"
+                            value={habitId}
+                            onChange={(e) => setHabitId(e.target.value)}
+                        >
+                            <option value="">Todos los hábitos</option>
+                            {activeHabits.map(habit => (
+                                <option key={habit.id} value={habit.id}>{habit.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="habit-form__field">
+                        <label className="habit-form__label" htmlFor="pause-reason">Motivo (opcional)</label>
+                        <input
+                            id="pause-reason"
+                            type="text"
+                            className="habit-form__input"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder="Vacaciones, enfermedad..."
+                            maxLength={60}
+                        />
+                    </div>
+
+                    <div className="habit-form__actions">
+                        <button
+                            type="button"
+                            className="habit-form__btn habit-form__btn--secondary"
+                            onClick={onClose}
+                        >
+                            Cerrar
+                        </button>
+                        <button
+                            type="submit"
+                            className="habit-form__btn habit-form__btn--primary"
+                            disabled={!start || !end}
+                        >
+                            Añadir pausa
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </Modal>
+    );
+}
+
+export default PauseModal;
@@ -0,0 +1,28 @@
+import { useHabits } from '../../context';
+import { useReminders } from '../../hooks';
+import { DayModal } from './DayModal';
+
+/**
+ * ReminderScheduler Component
+ * 
+ * Keeps habit reminders scheduled while the app is open and shows
+ * the quick-log of a habit when its reminder notification is tapped.
+ */
+export function ReminderScheduler() {
+    const { quickLogHabitId, closeQuickLog } = useReminders();
+    const { today } = useHabits();
+
+    if (!quickLogHabitId) {
+        return null;
+    }
+
+    return (
+        <DayModal
+            date={today}
+            habitId={quickLogHabitId}
+            onClose={closeQuickLog}
+        />
+    );
+}
+
+export default ReminderScheduler;
@@ -0,0 +1,165 @@
+import { useStats } from '../../hooks';
+import { HabitFilter } from './HabitFilter';
+import type { CompletionRate, RollingTrend } from '../../types';
+
+const MONTH_NAMES = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+const WEEKDAY_NAMES = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+/**
+ * Format a 0-1 rate as a percentage
+ */
+function formatRate(rate: number): string {
+    return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Props for RateBars component
+ */
+interface RateBarsProps {
+    /** One rate per bar */
+    rates: CompletionRate[];
+    /** Label of each bar */
+    labels: string[];
+}
+
+/**
+ * Vertical completion-rate bars (months, weekdays)
+ */
+function RateBars({ rates, labels }: RateBarsProps) {
+    return (
+        <div className="stats__bars">
+            {rates.map((rate, index) => (
+                <div
+                    key={labels[index]}
+                    className="stats__bar"
+                    title={rate.due > 0 ? `${rate.done}/${rate.due}` : 'Sin datos'}
+                >
+                    <div className="stats__bar-track">
+                        <div
+                            className="stats__bar-fill"
+                            style={{ height: formatRate(rate.rate) }}
+                        />
+                    </div>
+                    <span className="stats__bar-value">{rate.due > 0 ? formatRate(rate.rate) : '–'}</span>
+                    <span className="stats__bar-label">{labels[index]}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Rolling trend card: rate for the window and change versus the previous one
+ */
+function TrendCard({ trend }: { trend: RollingTrend }) {
+    const delta = trend.previousRate === null ? null : Math.round((trend.rate - trend.previousRate) * 100);
+
+    return (
+        <div className="stats__trend">
+            <span className="stats__trend-value">{trend.due > 0 ? formatRate(trend.rate) : '–'}</span>
+            <span className="stats__trend-label">Últimos {trend.days} días</span>
+            {delta !== null && trend.due > 0 && (
+                <span
+                    className={`stats__trend-delta ${delta > 0 ? 'stats__trend-delta--up' : ''} ${delta < 0 ? 'stats__trend-delta--down' : ''}`}
+                >
+                    {delta > 0 ? '▲' : delta < 0 ? '▼' : '='} {Math.abs(delta)} pts
+                </span>
+            )}
+        </div>
+    );
+}
+
+/**
+ * StatsDashboard Component
+ *
+ * Statistics view: rolling trends, completion rate per habit,
+ * per month and per weekday. Respects the habit filter.
+ */
+export function StatsDashboard() {
+    const { stats, habits, year } = useStats();
+
+    if (habits.length === 0) {
+        return (
+            <div className="stats">
+                <HabitFilter />
+                <div className="year-calendar__empty">
+                    <p>No tienes hábitos creados.</p>
+                    <p>Abre el menú para añadir tu primer hábito.</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="stats">
+            <HabitFilter />
+
+            {/* Rolling trends */}
+            <section className="stats__section">
+                <h3 className="stats__title">Tendencia</h3>
+                <div className="stats__trends">
+                    {stats.trends.map(trend => (
+                        <TrendCard key={trend.days} trend={trend} />
+                    ))}
+                </div>
+            </section>
+
+            {/* Per habit */}
+            <section className="stats__section">
+                <h3 className="stats__title">Por hábito · {year}</h3>
+                <table className="stats__table">
+                    <thead>
+                        <tr>
+                            <th>Hábito</th>
+                            <th>Hechos</th>
+                            <th>Cumplimiento</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stats.byHabit.map(rate => {
+                            const habit = habits.find(h => h.id === rate.habitId)!;
+                            return (
+                                <tr key={rate.habitId}>
+                                    <td>
+                                        <span
+                                            className="stats__habit-dot"
+                                            style={{ backgroundColor: habit.color }}
+                                            aria-hidden="true"
+                                        />
+                                        {habit.name}
+                                    </td>
+                                    <td>{rate.done}/{rate.due}</td>
+                                    <td>
+                                        <div className="stats__rate">
+                                            <div className="stats__rate-track">
+                                                <div
+                                                    className="stats__rate-fill"
+                                                    style={{ width: formatRate(rate.rate), backgroundColor: habit.color }}
+                                                />
+                                            </div>
+                                            <span>{rate.due > 0 ? formatRate(rate.rate) : '–'}</span>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </section>
+
+            {/* Per month */}
+            <section className="stats__section">
+                <h3 className="stats__title">Por mes · {year}</h3>
+                <RateBars rates={stats.byMonth} labels={MONTH_NAMES} />
+            </section>
+
+            {/* Per weekday */}
+            <section className="stats__section">
+                <h3 className="stats__title">Por día de la semana · {year}</h3>
+                <RateBars rates={stats.byWeekday} labels={WEEKDAY_NAMES} />
+            </section>
+        </div>
+    );
+}
+
+export default StatsDashboard;
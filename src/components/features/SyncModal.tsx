@@ -0,0 +1,132 @@
+import { useState, type FormEvent } from 'react';
+import { useNetwork } from '../../context';
+import { Modal } from '../common/Modal';
+import type { SyncState } from '../../types';
+
+interface SyncModalProps {
+    /** Close handler */
+    onClose: () => void;
+}
+
+/**
+ * Human-readable sync states
+ */
+const STATE_LABELS: Record<SyncState, string> = {
+    disabled: 'Desactivada',
+    idle: 'Al día',
+    syncing: 'Sincronizando…',
+    offline: 'Sin conexión: los cambios se enviarán al volver',
+    error: 'Error',
+};
+
+/**
+ * SyncModal Component
+ *
+ * Settings of the optional sync with a self-hosted server (server/index.js):
+ * - Server URL and optional token
+ * - Turn sync on/off
+ * - Current status, pending changes and manual sync
+ */
+export function SyncModal({ onClose }: SyncModalProps) {
+    const { sync, syncConfig, setSyncConfig, syncNow, isOnline } = useNetwork();
+    const [endpoint, setEndpoint] = useState(syncConfig.endpoint);
+    const [token, setToken] = useState(syncConfig.token ?? '');
+    const [enabled, setEnabled] = useState(syncConfig.enabled);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        setSyncConfig({ enabled: enabled && endpoint.trim() !== '', endpoint, token });
+    };
+
+    return (
+        <Modal onClose={onClose} title="Sincronización">
+            <form className="backup" onSubmit={handleSubmit}>
+                <section className="backup__section">
+                    <p className="habit-form__hint">
+                        Sincroniza hábitos y registros entre dispositivos a través de tu propio servidor
+                        (<code>npm run sync-server</code>). Si dos dispositivos cambian el mismo día,
+                        gana el cambio más reciente.
+                    </p>
+
+                    <div className="habit-form__field">
+                        <label className="habit-form__label" htmlFor="sync-endpoint">URL del servidor</label>
+                        <input
+                            id="sync-endpoint"
+                            type="url"
+                            className="habit-form__input"
+                            value={endpoint}
+                            onChange={(e) => setEndpoint(e.target.value)}
+                            placeholder="http://localhost:8787"
+                        />
+                    </div>
+
+                    <div className="habit-form__field">
+                        <label className="habit-form__label" htmlFor="sync-token">Token (opcional)</label>
+                        <input
+                            id="sync-token"
+                            type="password"
+                            className="habit-form__input"
+                            value={token}
+                            onChange={(e) => setToken(e.target.value)}
+                            autoComplete="off"
+                        />
+                    </div>
+
+                    <div className="habit-form__field habit-form__field--row">
+                        <label className="habit-form__label" htmlFor="sync-enabled">Activar</label>
+                        <button
+                            id="sync-enabled"
+                            type="button"
+                            className={`habit-form__toggle ${enabled ? 'habit-form__toggle--active' : ''}`}
+                            onClick={() => setEnabled(!enabled)}
+                            role="switch"
+                            aria-checked={enabled}
+                        >
+                            <span className="habit-form__toggle-thumb" />
+                        </button>
+                    </div>
+                </section>
+
+                {/* Status */}
+                {syncConfig.enabled && (
+                    <section className="backup__section" role="status">
+                        <p className="habit-form__hint">
+                            Estado: {STATE_LABELS[sync.state]}
+                            {sync.pendingChanges > 0 && ` · ${sync.pendingChanges} cambios pendientes`}
+                            {sync.lastSyncedAt && ` · Última: ${sync.lastSyncedAt.toLocaleString('es-ES')}`}
+                        </p>
+                        {sync.error && (
+                            <p className="habit-form__error" role="alert">{sync.error}</p>
+                        )}
+                        <button
+                            type="button"
+                            className="habit-form__btn habit-form__btn--secondary"
+                            onClick={() => void syncNow()}
+                            disabled={!isOnline || sync.state === 'syncing'}
+                        >
+                            Sincronizar ahora
+                        </button>
+                    </section>
+                )}
+
+                <div className="habit-form__actions">
+                    <button
+                        type="button"
+                        className="habit-form__btn habit-form__btn--secondary"
+                        onClick={onClose}
+                    >
+                        Cerrar
+                    </button>
+                    <button
+                        type="submit"
+                        className="habit-form__btn habit-form__btn--primary"
+                    >
+                        Guardar
+                    </button>
+                </div>
+            </form>
+        </Modal>
+    );
+}
+
+export default SyncModal;
@@ -0,0 +1,155 @@
+import { useHabits } from '../../context';
+import { parseLocalDate } from '../../utils';
+import type { Habit } from '../../types';
+
+/**
+ * Props for TodayView component
+ */
+interface TodayViewProps {
+    /** Switch to the year calendar */
+    onOpenCalendar: () => void;
+}
+
+/**
+ * TodayView Component
+ *
+ * Quick check-in screen for today: every habit as a large toggle,
+ * progress towards the mandatory habits and the current streaks.
+ */
+export function TodayView({ onOpenCalendar }: TodayViewProps) {
+    const {
+        habits,
+        streaks,
+        isCompleted,
+        toggleCompletion,
+        getValue,
+        isTracked,
+        isScheduled,
+        isPaused,
+        isSkipped,
+        getScheduleProgress,
+        today
+    } = useHabits();
+
+    const formattedDate = parseLocalDate(today).toLocaleDateString('es-ES', {
+        weekday: 'long',
+        day: 'numeric',
+        month: 'long'
+    });
+
+    const activeHabits = habits.filter(h => !h.archivedAt && isTracked(h, today));
+    // Paused and skipped habits are listed with the unscheduled ones
+    const isDueToday = (habit: Habit) =>
+        isScheduled(habit, today) && !isPaused(habit.id, today) && !isSkipped(habit.id, today);
+    const scheduledHabits = activeHabits.filter(isDueToday);
+    const unscheduledHabits = activeHabits.filter(h => !isDueToday(h));
+
+    const mandatoryHabits = scheduledHabits.filter(h => h.mandatory);
+    const mandatoryDone = mandatoryHabits.filter(h => isCompleted(h.id, today)).length;
+    const allMandatoryDone = mandatoryHabits.length > 0 && mandatoryDone === mandatoryHabits.length;
+
+    // Streak status: today extends the streak once every mandatory habit is done
+    const mandatoryStreak = streaks.mandatory.current;
+
+    const renderDetail = (habit: Habit) => {
+        if (habit.target) {
+            return `${getValue(habit.id, today) ?? 0}/${habit.target.value} ${habit.target.unit}`;
+        }
+
+        const schedule = habit.schedule;
+        if (schedule?.type === 'weeklyQuota' || schedule?.type === 'monthlyQuota') {
+            const { done, times } = getScheduleProgress(habit, today);
+            return `${done}/${times} ${schedule.type === 'weeklyQuota' ? 'esta semana' : 'este mes'}`;
+        }
+
+        return null;
+    };
+
+    const renderHabit = (habit: Habit) => {
+        const completed = isCompleted(habit.id, today);
+        const streak = streaks.byHabit[habit.id]?.current ?? 0;
+        const detail = renderDetail(habit);
+
+        return (
+            <li key={habit.id}>
+                <button
+                    type="button"
+                    className={`today__habit ${completed ? 'today__habit--completed' : ''}`}
+                    style={{ '--habit-color': habit.color } as React.CSSProperties}
+                    onClick={() => toggleCompletion(habit.id, today)}
+                    aria-pressed={completed}
+                >
+                    <span className="today__check" aria-hidden="true">
+                        {completed ? '✓' : ''}
+                    </span>
+                    <span className="today__habit-info">
+                        <span className="today__habit-name">
+                            {habit.name}
+                            {habit.mandatory && <span className="today__mandatory-badge" title="Obligatorio">!</span>}
+                        </span>
+                        {detail && <span className="today__habit-detail">{detail}</span>}
+                    </span>
+                    {streak > 0 && (
+                        <span className="today__habit-streak" title="Racha actual">🔥{streak}</span>
+                    )}
+                </button>
+            </li>
+        );
+    };
+
+    return (
+        <div className="today">
+            <header className="today__header">
+                <h2 className="today__date">{formattedDate}</h2>
+                <button type="button" className="today__calendar-link" onClick={onOpenCalendar}>
+                    Ver calendario →
+                </button>
+            </header>
+
+            {habits.length === 0 ? (
+                <div className="year-calendar__empty">
+                    <p>No tienes hábitos creados.</p>
+                    <p>Abre el menú para añadir tu primer hábito.</p>
+                </div>
+            ) : (
+                <>
+                    {/* Mandatory progress and streak */}
+                    {mandatoryHabits.length > 0 && (
+                        <section className={`today__summary ${allMandatoryDone ? 'today__summary--done' : ''}`}>
+                            <div className="today__summary-row">
+                                <span>Obligatorios: <strong>{mandatoryDone}/{mandatoryHabits.length}</strong></span>
+                                <span>🔥 {mandatoryStreak} {mandatoryStreak === 1 ? 'día' : 'días'}</span>
+                            </div>
+                            <div className="today__progress">
+                                <div
+                                    className="today__progress-fill"
+                                    style={{ width: `${(mandatoryDone / mandatoryHabits.length) * 100}%` }}
+                                />
+                            </div>
+                            <p className="today__summary-hint">
+                                {allMandatoryDone
+                                    ? '¡Racha asegurada por hoy!'
+                                    : 'Completa los obligatorios para mantener la racha'}
+                            </p>
+                        </section>
+                    )}
+
+                    <ul className="today__list">
+                        {scheduledHabits.map(renderHabit)}
+                    </ul>
+
+                    {unscheduledHabits.length > 0 && (
+                        <>
+                            <h3 className="today__section-title">No programados o en pausa</h3>
+                            <ul className="today__list today__list--unscheduled">
+                                {unscheduledHabits.map(renderHabit)}
+                            </ul>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
+
+export default TodayView;
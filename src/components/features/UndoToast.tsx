@@ -0,0 +1,31 @@
+import { useHabits } from '../../context';
+import { Toast } from '../common/Toast';
+
+/**
+ * UndoToast Component
+ * 
+ * Shows the latest change with a "Deshacer" action,
+ * or "Rehacer" right after undoing.
+ */
+export function UndoToast() {
+    const { undoNotice, undo, redo, canRedo, dismissUndoNotice } = useHabits();
+
+    if (!undoNotice) {
+        return null;
+    }
+
+    const isUndone = undoNotice.kind === 'undone';
+    const prefix = isUndone ? 'Deshecho: ' : undoNotice.kind === 'redone' ? 'Rehecho: ' : '';
+
+    return (
+        <Toast
+            key={undoNotice.id}
+            message={`${prefix}${undoNotice.label}`}
+            actionLabel={isUndone ? (canRedo ? 'Rehacer' : undefined) : 'Deshacer'}
+            onAction={isUndone ? redo : undo}
+            onClose={dismissUndoNotice}
+        />
+    );
+}
+
+export default UndoToast;
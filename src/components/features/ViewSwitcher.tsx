@@ -0,0 +1,50 @@
+import type { AppView } from '../../types';
+
+/**
+ * Views shown in the switcher, in display order
+ */
+const VIEWS: { id: AppView; label: string; icon: string }[] = [
+    { id: 'today', label: 'Hoy', icon: '✅' },
+    { id: 'calendar', label: 'Año', icon: '📅' },
+    { id: 'month', label: 'Mes', icon: '🗓️' },
+    { id: 'week', label: 'Semana', icon: '📋' },
+    { id: 'stats', label: 'Estadísticas', icon: '📈' },
+    { id: 'heatmap', label: 'Mapa', icon: '🟩' },
+];
+
+/**
+ * Props for ViewSwitcher component
+ */
+interface ViewSwitcherProps {
+    /** Currently selected view */
+    value: AppView;
+    /** Change handler */
+    onChange: (view: AppView) => void;
+}
+
+/**
+ * ViewSwitcher Component
+ * 
+ * Tab bar to switch between the main views.
+ */
+export function ViewSwitcher({ value, onChange }: ViewSwitcherProps) {
+    return (
+        <nav className="view-switcher" role="tablist" aria-label="Vistas">
+            {VIEWS.map(view => (
+                <button
+                    key={view.id}
+                    type="button"
+                    role="tab"
+                    aria-selected={value === view.id}
+                    className={`view-switcher__tab ${value === view.id ? 'view-switcher__tab--active' : ''}`}
+                    onClick={() => onChange(view.id)}
+                >
+                    <span aria-hidden="true">{view.icon}</span>
+                    <span className="view-switcher__label">{view.label}</span>
+                </button>
+            ))}
+        </nav>
+    );
+}
+
+export default ViewSwitcher;
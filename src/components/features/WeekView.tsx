@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useHabits } from '../../context';
+import { addDays, getWeekStart, parseLocalDate } from '../../utils';
+import { HabitFilter } from './HabitFilter';
+
+/**
+ * Weekday abbreviations in Spanish (starting Monday)
+ */
+const WEEKDAY_ABBR = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+/**
+ * WeekView Component
+ *
+ * One row per habit with seven toggleable cells (Monday to Sunday),
+ * to back-fill a whole week at once.
+ */
+export function WeekView() {
+    const { habits, selectedHabitIds, isCompleted, toggleCompletion, isTracked, isScheduled, today } = useHabits();
+    const [monday, setMonday] = useState(() => getWeekStart(today));
+
+    const filteredHabits = selectedHabitIds.length > 0
+        ? habits.filter(h => selectedHabitIds.includes(h.id))
+        : habits;
+
+    const days = Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(monday, i);
+        return { date, day: Number(date.slice(8)) };
+    });
+
+    // Archived habits only show up in the weeks they were still tracked
+    const visibleHabits = filteredHabits.filter(h =>
+        !h.endDate || h.endDate >= days[0].date
+    );
+
+    const goToWeek = (offset: number) => {
+        setMonday(prev => addDays(prev, offset * 7));
+    };
+
+    const rangeLabel = `${parseLocalDate(days[0].date).toLocaleDateString('es-ES', { day: 'numeric', month: 'short' })}`
+        + ` – ${parseLocalDate(days[6].date).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+    return (
+        <div className="week-view">
+            {habits.length > 0 && <HabitFilter />}
+
+            {/* Week navigation */}
+            <div className="view-nav">
+                <button
+                    type="button"
+                    className="view-nav__btn"
+                    onClick={() => goToWeek(-1)}
+                    aria-label="Semana anterior"
+                >
+                    ‹
+                </button>
+                <h2 className="view-nav__title">{rangeLabel}</h2>
+                <button
+                    type="button"
+                    className="view-nav__btn"
+                    onClick={() => goToWeek(1)}
+                    aria-label="Semana siguiente"
+                >
+                    ›
+                </button>
+            </div>
+
+            {habits.length === 0 ? (
+                <div className="year-calendar__empty">
+                    <p>No tienes hábitos creados.</p>
+                    <p>Abre el menú para añadir tu primer hábito.</p>
+                </div>
+            ) : (
+                <div className="week-view__grid">
+                    {/* Header row */}
+                    <span className="week-view__corner" />
+                    {days.map(({ date, day }, i) => (
+                        <span
+                            key={date}
+                            className={`week-view__day ${date === today ? 'week-view__day--today' : ''}`}
+                        >
+                            {WEEKDAY_ABBR[i]}
+                            <strong>{day}</strong>
+                        </span>
+                    ))}
+
+                    {/* One row per habit */}
+                    {visibleHabits.map(habit => (
+                        <div key={habit.id} className="week-view__row">
+                            <span className="week-view__habit">
+                                <span
+                                    className="week-view__habit-dot"
+                                    style={{ backgroundColor: habit.color }}
+                                    aria-hidden="true"
+                                />
+                                <span className="week-view__habit-name">{habit.name}</span>
+                            </span>
+                            {days.map(({ date }) => {
+                                const completed = isCompleted(habit.id, date);
+                                const disabled = date > today || !isTracked(habit, date);
+
+                                return (
+                                    <button
+                                        key={date}
+                                        type="button"
+                                        className={[
+                                            'week-view__cell',
+                                            completed ? 'week-view__cell--completed' : '',
+                                            !disabled && !isScheduled(habit, date) ? 'week-view__cell--unscheduled' : '',
+                                        ].join(' ')}
+                                        style={completed ? { backgroundColor: habit.color } : undefined}
+                                        onClick={() => toggleCompletion(habit.id, date)}
+                                        disabled={disabled}
+                                        aria-pressed={completed}
+                                        aria-label={`${habit.name} ${date}`}
+                                    >
+                                        {completed && '✓'}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default WeekView;
@@ -1,55 +1,139 @@
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useHabits } from '../../context';
 import { MonthGrid } from './MonthGrid';
+import { MultiYearHeatmap } from './MultiYearHeatmap';
 import { DayModal } from './DayModal';
 import { HabitFilter } from './HabitFilter';
+import type { CalendarRange, DateRange } from '../../types';
+
+/**
+ * Months (year and 0-based month) touched by a date range, in order
+ */
+function getMonthsInRange(range: DateRange): { year: number; month: number }[] {
+    const months: { year: number; month: number }[] = [];
+    let year = Number(range.start.slice(0, 4));
+    let month = Number(range.start.slice(5, 7)) - 1;
+    const endKey = range.end.slice(0, 7);
+
+    while (`${year}-${String(month + 1).padStart(2, '0')}` <= endKey) {
+        months.push({ year, month });
+        month = (month + 1) % 12;
+        if (month === 0) year++;
+    }
+
+    return months;
+}
 
 /**
  * YearCalendar Component
  * 
- * Main calendar view showing all 12 months of the current year.
- * Each day is represented as a colored dot indicating habit completion.
+ * Main calendar view. Each day is represented as a colored dot indicating habit completion.
+ * - Year: all 12 months of the current year
+ * - Last 12 months: the last 365 days month by month, across New Year
+ * - All years: a compact heatmap per year with data
  */
 export function YearCalendar() {
-    const { currentYear, dayStatusMap, habits } = useHabits();
+    const {
+        currentYear,
+        calendarRange,
+        setCalendarRange,
+        statusRange,
+        dayStatusMap,
+        noteDates,
+        habits,
+        streaks,
+        today
+    } = useHabits();
+    // Archived habits stay visible in the ranges they were tracked in
+    const yearHabits = habits.filter(h => !h.endDate || h.endDate >= statusRange.start);
+    const hasMandatory = yearHabits.some(h => h.mandatory && !h.archivedAt);
     const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
-    const handleDayClick = (date: string) => {
+    // Stable handler, so the memoised months don't re-render
+    const handleDayClick = useCallback((date: string) => {
         // Only open modal if there are habits
         if (habits.length > 0) {
             setSelectedDate(date);
         }
-    };
+    }, [habits.length]);
 
     const handleCloseModal = () => {
         setSelectedDate(null);
     };
 
+    const ranges: { id: CalendarRange; label: string }[] = [
+        { id: 'year', label: String(currentYear) },
+        { id: 'rolling', label: 'Últimos 12 meses' },
+        { id: 'all', label: 'Todos los años' },
+    ];
+
+    const months = useMemo(() => getMonthsInRange(statusRange), [statusRange]);
+
     return (
         <div className="year-calendar">
             {/* Habit Filter - below header */}
             {habits.length > 0 && <HabitFilter />}
 
-            {/* Months Grid */}
-            <div className="year-calendar__months">
-                {Array.from({ length: 12 }, (_, month) => (
-                    <MonthGrid
-                        key={month}
-                        year={currentYear}
-                        month={month}
-                        dayStatusMap={dayStatusMap}
-                        onDayClick={handleDayClick}
-                    />
+            {/* Range selector */}
+            <div className="year-calendar__ranges" role="group" aria-label="Periodo">
+                {ranges.map(range => (
+                    <button
+                        key={range.id}
+                        type="button"
+                        className={`year-calendar__range ${calendarRange === range.id ? 'year-calendar__range--active' : ''}`}
+                        aria-pressed={calendarRange === range.id}
+                        onClick={() => setCalendarRange(range.id)}
+                    >
+                        {range.label}
+                    </button>
                 ))}
             </div>
 
+            {calendarRange === 'all' ? (
+                <MultiYearHeatmap
+                    range={statusRange}
+                    dayStatusMap={dayStatusMap}
+                    today={today}
+                    onDayClick={handleDayClick}
+                />
+            ) : (
+                /* Months Grid */
+                <div className="year-calendar__months">
+                    {months.map(({ year, month }) => (
+                        <MonthGrid
+                            key={`${year}-${month}`}
+                            year={year}
+                            month={month}
+                            dayStatusMap={dayStatusMap}
+                            today={today}
+                            noteDates={noteDates}
+                            range={calendarRange === 'rolling' ? statusRange : undefined}
+                            showYear={calendarRange === 'rolling'}
+                            onDayClick={handleDayClick}
+                        />
+                    ))}
+                </div>
+            )}
+
             {/* Habit Legend */}
             {habits.length > 0 && (
                 <div className="year-calendar__legend">
                     <h4 className="year-calendar__legend-title">Hábitos</h4>
+                    {hasMandatory && (
+                        <p className="year-calendar__legend-streak">
+                            🔥 Obligatorios: <strong>{streaks.mandatory.current}</strong> días seguidos
+                            <span className="year-calendar__legend-record">
+                                Récord: {streaks.mandatory.longest}
+                            </span>
+                        </p>
+                    )}
                     <div className="year-calendar__legend-items">
-                        {habits.map(habit => (
-                            <div key={habit.id} className="year-calendar__legend-item">
+                        {yearHabits.map(habit => (
+                            <div
+                                key={habit.id}
+                                className={`year-calendar__legend-item ${habit.archivedAt ? 'year-calendar__legend-item--archived' : ''}`}
+                                title={habit.endDate ? `Archivado · hasta ${habit.endDate}` : undefined}
+                            >
                                 <span
                                     className="year-calendar__legend-dot"
                                     style={{ backgroundColor: habit.color }}
@@ -59,6 +143,14 @@ export function YearCalendar() {
                                     {habit.name}
                                     {habit.mandatory && <span className="year-calendar__mandatory-badge">!</span>}
                                 </span>
+                                {(streaks.byHabit[habit.id]?.current ?? 0) > 0 && (
+                                    <span
+                                        className="year-calendar__legend-count"
+                                        title={`Racha actual · récord ${streaks.byHabit[habit.id].longest}`}
+                                    >
+                                        🔥{streaks.byHabit[habit.id].current}
+                                    </span>
+                                )}
                             </div>
                         ))}
                     </div>
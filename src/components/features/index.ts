@@ -4,9 +4,30 @@
 
 export { DayCell } from './DayCell';
 export { MonthGrid } from './MonthGrid';
+export { HeatmapStrip } from './HeatmapStrip';
+export { MultiYearHeatmap } from './MultiYearHeatmap';
+export { TodayView } from './TodayView';
 export { YearCalendar } from './YearCalendar';
+export { MonthView } from './MonthView';
+export { WeekView } from './WeekView';
 export { DayModal } from './DayModal';
+export { DayNoteEditor } from './DayNoteEditor';
 export { HabitForm } from './HabitForm';
+export { HabitTargetFields } from './HabitTargetFields';
+export { HabitScheduleFields } from './HabitScheduleFields';
+export { HabitReminderField } from './HabitReminderField';
 export { HabitEditModal } from './HabitEditModal';
 export { HabitMenu } from './HabitMenu';
 export { HabitFilter } from './HabitFilter';
+export { BackupModal } from './BackupModal';
+export { ExportModal } from './ExportModal';
+export { HistoryImportModal } from './HistoryImportModal';
+export { PauseModal } from './PauseModal';
+export { NotesModal } from './NotesModal';
+export { SyncModal } from './SyncModal';
+export { ReminderScheduler } from './ReminderScheduler';
+export { ViewSwitcher } from './ViewSwitcher';
+export { StatsDashboard } from './StatsDashboard';
+export { HabitHeatmap } from './HabitHeatmap';
+export { UndoToast } from './UndoToast';
+export { LoadErrorNotice } from './LoadErrorNotice';
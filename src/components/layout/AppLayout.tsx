@@ -1,5 +1,6 @@
 import { useState, type ReactNode } from 'react';
 import { HabitMenu } from '../features/HabitMenu';
+import { ConnectionStatus } from '../common/ConnectionStatus';
 import { usePWAInstall } from '../../hooks';
 
 /**
@@ -44,6 +45,8 @@ export function Header({ title = 'Habit Tracker', onMenuToggle }: HeaderProps) {
 
                 {/* Right side actions */}
                 <div className="header__actions">
+                    {/* Offline banner and sync status */}
+                    <ConnectionStatus showWhenOnline={false} />
 
                     {/* Install PWA Button */}
                     {canInstall && (
@@ -4,50 +4,131 @@ import {
     useState,
     useEffect,
     useCallback,
+    useMemo,
+    useRef,
     type ReactNode
 } from 'react';
-import { HabitService, HabitLogService } from '../services';
+import { HabitService, HabitLogService, ScheduleService, StreakService, PauseService, NoteService, TabSyncService, SyncService } from '../services';
+import { addDays, debounce, getMsUntilTomorrow, getToday, getYearRange } from '../utils';
 import type {
     Habit,
+    HabitLog,
     CreateHabitData,
     UpdateHabitData,
     DayStatus,
-    HabitSettings
+    DateRange,
+    CalendarRange,
+    HabitSettings,
+    HabitPause,
+    CreatePauseData,
+    DayNote,
+    MoodRating,
+    StreakSummary,
+    UndoEntry,
+    UndoNotice
 } from '../types';
 
+/**
+ * Maximum number of changes kept in the undo stack
+ */
+const MAX_HISTORY = 50;
+
+/**
+ * Delay before reloading after another tab writes, so bursts of writes reload once
+ */
+const TAB_SYNC_DELAY = 300;
+
+/**
+ * Streaks before the data is loaded
+ */
+const NO_STREAKS: StreakSummary = {
+    byHabit: {},
+    mandatory: { current: 0, longest: 0, history: [] },
+};
+
 /**
  * Habit Context Value interface
  */
 interface HabitContextValue {
     /** List of all habits */
     habits: Habit[];
+    /** All logs - a new array after every log write, so it can be used as a dependency */
+    logs: HabitLog[];
     /** Day status map for calendar display */
     dayStatusMap: Map<string, DayStatus>;
+    /** Pause periods (vacation mode) */
+    pauses: HabitPause[];
+    /** Per-day notes and mood ratings */
+    notes: DayNote[];
+    /** Dates that have a note, for the calendar markers */
+    noteDates: Set<string>;
+    /** Current/longest streaks per habit and for all mandatory habits */
+    streaks: StreakSummary;
+    /** Today's date "YYYY-MM-DD", updated at midnight */
+    today: string;
     /** Current year being viewed */
     currentYear: number;
+    /** Span shown by the calendar view */
+    calendarRange: CalendarRange;
+    /** Dates covered by dayStatusMap (depends on calendarRange and currentYear) */
+    statusRange: DateRange;
     /** App settings */
     settings: HabitSettings;
     /** Loading state */
     isLoading: boolean;
+    /** User-facing message when the stored data could not be loaded */
+    loadError: string | null;
 
     // Habit CRUD operations
     createHabit: (data: CreateHabitData) => Habit;
     updateHabit: (id: string, updates: UpdateHabitData) => Habit | null;
     deleteHabit: (id: string) => boolean;
+    archiveHabit: (id: string) => Habit | null;
+    unarchiveHabit: (id: string) => Habit | null;
 
     // Log operations
     toggleCompletion: (habitId: string, date: string) => boolean;
     setCompletion: (habitId: string, date: string, completed: boolean) => void;
     isCompleted: (habitId: string, date: string) => boolean;
+    /** Log the amount of a numeric habit; null removes the day's log */
+    setValue: (habitId: string, date: string, value: number | null) => void;
+    getValue: (habitId: string, date: string) => number | undefined;
+    setSkipped: (habitId: string, date: string, skipped: boolean, reason?: string) => void;
+    isSkipped: (habitId: string, date: string) => boolean;
+    getSkipReason: (habitId: string, date: string) => string | undefined;
+
+    // Pauses
+    addPause: (data: CreatePauseData) => HabitPause;
+    deletePause: (id: string) => boolean;
+    isPaused: (habitId: string, date: string) => boolean;
+
+    // Notes
+    getNote: (date: string) => DayNote | undefined;
+    saveNote: (date: string, text: string, mood?: MoodRating) => void;
+
+    // Schedule helpers
+    isTracked: (habit: Habit, date: string) => boolean;
+    isScheduled: (habit: Habit, date: string) => boolean;
+    getScheduleProgress: (habit: Habit, date: string) => { done: number; times: number };
 
     // Navigation
     setYear: (year: number) => void;
+    setCalendarRange: (range: CalendarRange) => void;
 
     // Filtering
     selectedHabitIds: string[];
     toggleHabitFilter: (habitId: string) => void;
     clearHabitFilters: () => void;
 
+    // Undo/redo
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    /** Latest recorded/undone/redone change, for the undo toast */
+    undoNotice: UndoNotice | null;
+    dismissUndoNotice: () => void;
+
     // Refresh data
     refreshData: () => void;
 }
@@ -66,42 +147,160 @@ interface HabitProviderProps {
  */
 export function HabitProvider({ children }: HabitProviderProps) {
     const [habits, setHabits] = useState<Habit[]>([]);
+    const [logs, setLogs] = useState<HabitLog[]>([]);
     const [dayStatusMap, setDayStatusMap] = useState<Map<string, DayStatus>>(new Map());
+    const [pauses, setPauses] = useState<HabitPause[]>([]);
+    const [notes, setNotes] = useState<DayNote[]>([]);
+    const [streaks, setStreaks] = useState<StreakSummary>(NO_STREAKS);
     const [selectedHabitIds, setSelectedHabitIds] = useState<string[]>([]);
     const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
+    const [calendarRange, setCalendarRange] = useState<CalendarRange>('year');
     const [settings, setSettings] = useState<HabitSettings>({
         currentYear: new Date().getFullYear(),
     });
     const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [today, setToday] = useState(() => getToday());
+
+    // Undo/redo stacks live in refs: entries are closures over service calls, not render state
+    const undoStack = useRef<UndoEntry[]>([]);
+    const redoStack = useRef<UndoEntry[]>([]);
+    const [undoNotice, setUndoNotice] = useState<UndoNotice | null>(null);
+    const noticeId = useRef(0);
 
     /**
      * Load data from storage
      */
-    const loadData = useCallback(() => {
+    const loadData = useCallback(async (): Promise<void> => {
         setIsLoading(true);
+        setLoadError(null);
 
-        const loadedHabits = HabitService.getHabits();
-        const loadedSettings = HabitService.getSettings();
-        const statusMap = HabitLogService.getDayStatusMap(currentYear, loadedHabits, selectedHabitIds);
-
-        setHabits(loadedHabits);
-        setSettings(loadedSettings);
-        setDayStatusMap(statusMap);
+        try {
+            await HabitService.load();
 
-        setIsLoading(false);
-    }, [currentYear, selectedHabitIds]);
+            setHabits(HabitService.getHabits());
+            setLogs(HabitLogService.getLogs());
+            setPauses(PauseService.getPauses());
+            setNotes(NoteService.getNotes());
+            setSettings(HabitService.getSettings());
+        } catch (error) {
+            // IndexedDB unavailable (private mode, blocked storage) or the upgrade failed
+            console.error('Error loading data:', error);
+            setLoadError('No se pudieron cargar tus datos. Comprueba que el navegador permite guardar datos del sitio.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
 
-    // Load data on mount and when year changes
+    // Load data on mount
     useEffect(() => {
         loadData();
     }, [loadData]);
 
-    // Update dayStatusMap when filter selection changes
+    // Move "today" forward at midnight: ranges and streaks that end today follow it
     useEffect(() => {
-        if (habits.length > 0) {
-            setDayStatusMap(HabitLogService.getDayStatusMap(currentYear, habits, selectedHabitIds));
+        const timer = window.setTimeout(
+            () => setToday(getToday()),
+            getMsUntilTomorrow() + 1000
+        );
+        return () => window.clearTimeout(timer);
+    }, [today]);
+
+    // Dates covered by dayStatusMap: the selected year, the last 365 days,
+    // or every year from the first habit or log up to the current one
+    const statusRange = useMemo((): DateRange => {
+        if (calendarRange === 'rolling') {
+            return { start: addDays(today, -364), end: today };
         }
-    }, [currentYear, habits, selectedHabitIds]);
+
+        if (calendarRange === 'all') {
+            const thisYear = Number(today.slice(0, 4));
+            const firstYear = Math.min(
+                thisYear,
+                ...HabitLogService.getYearsWithLogs(),
+                ...habits.map(h => Number(h.startDate.slice(0, 4)))
+            );
+            return { start: `${firstYear}-01-01`, end: `${thisYear}-12-31` };
+        }
+
+        return getYearRange(currentYear);
+    }, [calendarRange, currentYear, habits, today]);
+
+    // Update dayStatusMap when habits, pauses, range or filter selection change
+    // (getDayStatusMap reads the pauses through PauseService)
+    useEffect(() => {
+        setDayStatusMap(HabitLogService.getDayStatusMap(statusRange, habits, selectedHabitIds));
+    }, [statusRange, habits, pauses, selectedHabitIds]);
+
+    // Recompute every streak when habits, pauses or the day change
+    // (log writes only update the streaks they affect, see refreshAfterLogWrite)
+    useEffect(() => {
+        setStreaks(StreakService.getSummary(habits, pauses, today));
+    }, [habits, pauses, today]);
+
+    /**
+     * Re-read habits and day statuses after the in-memory state changed behind React's back
+     */
+    const syncFromServices = useCallback((): void => {
+        const updatedHabits = HabitService.getHabits();
+        const updatedPauses = PauseService.getPauses();
+        setHabits(updatedHabits);
+        setLogs(HabitLogService.getLogs());
+        setPauses(updatedPauses);
+        setDayStatusMap(HabitLogService.getDayStatusMap(statusRange, updatedHabits, selectedHabitIds));
+        setStreaks(StreakService.getSummary(updatedHabits, updatedPauses, today));
+    }, [statusRange, selectedHabitIds, today]);
+
+    /**
+     * Show a history event in the undo toast
+     */
+    const notify = useCallback((kind: UndoNotice['kind'], label: string): void => {
+        noticeId.current++;
+        setUndoNotice({ id: noticeId.current, kind, label });
+    }, []);
+
+    /**
+     * Record a new change; any redoable changes are discarded
+     */
+    const record = useCallback((entry: UndoEntry): void => {
+        undoStack.current = [...undoStack.current, entry].slice(-MAX_HISTORY);
+        redoStack.current = [];
+        notify('done', entry.label);
+    }, [notify]);
+
+    /**
+     * Record a change of the log of a habit on a date
+     */
+    const recordLogChange = useCallback((
+        habitId: string,
+        date: string,
+        before: ReturnType<typeof HabitLogService.getLog>,
+        label: string
+    ): void => {
+        const after = HabitLogService.getLog(habitId, date);
+        const snapshot = after && { ...after };
+
+        record({
+            label,
+            undo: () => HabitLogService.restoreLog(habitId, date, before),
+            redo: () => HabitLogService.restoreLog(habitId, date, snapshot),
+        });
+    }, [record]);
+
+    /**
+     * Refresh what a log write changed: the logs, the affected day statuses
+     * and the streaks of the habit, keeping the other days and habits untouched
+     */
+    const refreshAfterLogWrite = useCallback((habitId: string, date: string): void => {
+        const dates = HabitLogService.getAffectedDates(habitId, date);
+        setLogs(HabitLogService.getLogs());
+        setDayStatusMap(prev =>
+            HabitLogService.updateDayStatusMap(prev, statusRange, habits, dates, selectedHabitIds)
+        );
+        setStreaks(prev => StreakService.updateSummary(prev, habits, pauses, habitId, dates, today));
+    }, [statusRange, habits, pauses, selectedHabitIds, today]);
+
+    const noteDates = useMemo(() => new Set(notes.map(n => n.date)), [notes]);
 
     /**
      * Create a new habit
@@ -109,33 +308,55 @@ export function HabitProvider({ children }: HabitProviderProps) {
     const createHabit = useCallback((data: CreateHabitData): Habit => {
         const newHabit = HabitService.createHabit(data);
 
+        record({
+            label: `Hábito "${newHabit.name}" creado`,
+            undo: () => HabitService.deleteHabit(newHabit.id),
+            redo: () => HabitService.restoreHabit(newHabit),
+        });
+
         // Refresh local state
         setHabits(HabitService.getHabits());
 
         return newHabit;
-    }, []);
+    }, [record]);
 
     /**
      * Update an existing habit
      */
     const updateHabit = useCallback((id: string, updates: UpdateHabitData): Habit | null => {
+        const previous = HabitService.getHabitById(id);
         const updatedHabit = HabitService.updateHabit(id, updates);
 
-        if (updatedHabit) {
+        if (previous && updatedHabit) {
+            record({
+                label: `Hábito "${updatedHabit.name}" editado`,
+                undo: () => HabitService.restoreHabit(previous),
+                redo: () => HabitService.restoreHabit(updatedHabit),
+            });
+
             // Refresh local state
             setHabits(HabitService.getHabits());
         }
 
         return updatedHabit;
-    }, []);
+    }, [record]);
 
     /**
      * Delete a habit
      */
     const deleteHabit = useCallback((id: string): boolean => {
+        const index = HabitService.getHabits().findIndex(h => h.id === id);
+        const previous = HabitService.getHabitById(id);
+        const previousLogs = HabitLogService.getLogsForHabit(id);
         const success = HabitService.deleteHabit(id);
 
-        if (success) {
+        if (success && previous) {
+            record({
+                label: `Hábito "${previous.name}" eliminado`,
+                undo: () => HabitService.restoreHabit(previous, previousLogs, index),
+                redo: () => HabitService.deleteHabit(id),
+            });
+
             // Remove from selection if present
             if (selectedHabitIds.includes(id)) {
                 setSelectedHabitIds(prev => prev.filter(hId => hId !== id));
@@ -144,34 +365,83 @@ export function HabitProvider({ children }: HabitProviderProps) {
             // Refresh local state
             const updatedHabits = HabitService.getHabits();
             setHabits(updatedHabits);
+            setLogs(HabitLogService.getLogs());
             const currentSelected = selectedHabitIds.filter(hId => hId !== id);
-            setDayStatusMap(HabitLogService.getDayStatusMap(currentYear, updatedHabits, currentSelected));
+            setDayStatusMap(HabitLogService.getDayStatusMap(statusRange, updatedHabits, currentSelected));
         }
 
         return success;
-    }, [currentYear, selectedHabitIds]);
+    }, [statusRange, selectedHabitIds, record]);
+
+    /**
+     * Archive a habit, ending it today while keeping its history
+     */
+    const archiveHabit = useCallback((id: string): Habit | null => {
+        const previous = HabitService.getHabitById(id);
+        const archived = HabitService.archiveHabit(id);
+
+        if (previous && archived) {
+            record({
+                label: `Hábito "${archived.name}" archivado`,
+                undo: () => HabitService.restoreHabit(previous),
+                redo: () => HabitService.restoreHabit(archived),
+            });
+
+            // Remove from selection if present
+            setSelectedHabitIds(prev => prev.filter(hId => hId !== id));
+            setHabits(HabitService.getHabits());
+        }
+
+        return archived;
+    }, [record]);
+
+    /**
+     * Restore an archived habit
+     */
+    const unarchiveHabit = useCallback((id: string): Habit | null => {
+        const previous = HabitService.getHabitById(id);
+        const restored = HabitService.unarchiveHabit(id);
+
+        if (previous && restored) {
+            record({
+                label: `Hábito "${restored.name}" restaurado`,
+                undo: () => HabitService.restoreHabit(previous),
+                redo: () => HabitService.restoreHabit(restored),
+            });
+
+            setHabits(HabitService.getHabits());
+        }
+
+        return restored;
+    }, [record]);
 
     /**
      * Toggle habit completion for a date
      */
     const toggleCompletion = useCallback((habitId: string, date: string): boolean => {
+        const before = HabitLogService.getLog(habitId, date);
         const newStatus = HabitLogService.toggleCompletion(habitId, date);
+        const name = HabitService.getHabitById(habitId)?.name ?? '';
 
-        // Refresh day status map
-        setDayStatusMap(HabitLogService.getDayStatusMap(currentYear, habits, selectedHabitIds));
+        recordLogChange(habitId, date, before, `"${name}" ${newStatus ? 'marcado' : 'desmarcado'} (${date})`);
+
+        refreshAfterLogWrite(habitId, date);
 
         return newStatus;
-    }, [currentYear, habits, selectedHabitIds]);
+    }, [recordLogChange, refreshAfterLogWrite]);
 
     /**
      * Set completion status for a specific date
      */
     const setCompletion = useCallback((habitId: string, date: string, completed: boolean): void => {
+        const before = HabitLogService.getLog(habitId, date);
         HabitLogService.setCompletion(habitId, date, completed);
+        const name = HabitService.getHabitById(habitId)?.name ?? '';
+
+        recordLogChange(habitId, date, before, `"${name}" ${completed ? 'marcado' : 'desmarcado'} (${date})`);
 
-        // Refresh day status map
-        setDayStatusMap(HabitLogService.getDayStatusMap(currentYear, habits, selectedHabitIds));
-    }, [currentYear, habits, selectedHabitIds]);
+        refreshAfterLogWrite(habitId, date);
+    }, [recordLogChange, refreshAfterLogWrite]);
 
     /**
      * Check if habit is completed for a date
@@ -181,10 +451,143 @@ export function HabitProvider({ children }: HabitProviderProps) {
     }, []);
 
     /**
-     * Change the current year
+     * Set the logged value of a numeric habit for a date (null clears the day)
+     */
+    const setValue = useCallback((habitId: string, date: string, value: number | null): void => {
+        const before = HabitLogService.getLog(habitId, date);
+        if (value === null) {
+            HabitLogService.clearLog(habitId, date);
+        } else {
+            HabitLogService.setValue(habitId, date, value);
+        }
+        const name = HabitService.getHabitById(habitId)?.name ?? '';
+
+        recordLogChange(habitId, date, before, `"${name}": ${value ?? 'sin valor'} (${date})`);
+
+        refreshAfterLogWrite(habitId, date);
+    }, [recordLogChange, refreshAfterLogWrite]);
+
+    /**
+     * Get the logged value of a numeric habit for a date
+     */
+    const getValue = useCallback((habitId: string, date: string): number | undefined => {
+        return HabitLogService.getValue(habitId, date);
+    }, []);
+
+    /**
+     * Mark a habit as skipped (excused) for a date, or clear the skip
+     */
+    const setSkipped = useCallback((habitId: string, date: string, skipped: boolean, reason?: string): void => {
+        const before = HabitLogService.getLog(habitId, date);
+        HabitLogService.setSkipped(habitId, date, skipped, reason);
+        const name = HabitService.getHabitById(habitId)?.name ?? '';
+
+        recordLogChange(habitId, date, before, `"${name}" ${skipped ? 'omitido' : 'pendiente'} (${date})`);
+
+        refreshAfterLogWrite(habitId, date);
+    }, [recordLogChange, refreshAfterLogWrite]);
+
+    /**
+     * Check if a habit was skipped for a date
+     */
+    const isSkipped = useCallback((habitId: string, date: string): boolean => {
+        return HabitLogService.isSkipped(habitId, date);
+    }, []);
+
+    /**
+     * Get the reason a habit was skipped for a date
+     */
+    const getSkipReason = useCallback((habitId: string, date: string): string | undefined => {
+        return HabitLogService.getLog(habitId, date)?.skipReason;
+    }, []);
+
+    /**
+     * Pause one habit (or all of them) for a date range
+     */
+    const addPause = useCallback((data: CreatePauseData): HabitPause => {
+        const pause = PauseService.addPause(data);
+
+        record({
+            label: 'Pausa añadida',
+            undo: () => PauseService.deletePause(pause.id),
+            redo: () => PauseService.restorePause(pause),
+        });
+
+        setPauses(PauseService.getPauses());
+        return pause;
+    }, [record]);
+
+    /**
+     * Remove a pause period
+     */
+    const deletePause = useCallback((id: string): boolean => {
+        const previous = PauseService.getPauses().find(p => p.id === id);
+        const success = PauseService.deletePause(id);
+
+        if (success && previous) {
+            record({
+                label: 'Pausa eliminada',
+                undo: () => PauseService.restorePause(previous),
+                redo: () => PauseService.deletePause(id),
+            });
+
+            setPauses(PauseService.getPauses());
+        }
+
+        return success;
+    }, [record]);
+
+    /**
+     * Get the note of a day
+     */
+    const getNote = useCallback((date: string): DayNote | undefined => {
+        return NoteService.getNote(date);
+    }, []);
+
+    /**
+     * Save (or clear) the note and mood of a day
+     */
+    const saveNote = useCallback((date: string, text: string, mood?: MoodRating): void => {
+        NoteService.saveNote(date, text, mood);
+        setNotes(NoteService.getNotes());
+    }, []);
+
+    /**
+     * Check if a habit (or every habit) is paused on a date
+     */
+    const isPaused = useMemo(() => PauseService.createPauseLookup(pauses), [pauses]);
+
+    /**
+     * Check if a date is within a habit's tracked range (start date to end date)
+     */
+    const isTracked = useCallback((habit: Habit, date: string): boolean => {
+        return ScheduleService.isTracked(habit, date);
+    }, []);
+
+    /**
+     * Check if a habit is planned on a date according to its schedule
+     */
+    const isScheduled = useCallback((habit: Habit, date: string): boolean => {
+        return ScheduleService.isScheduledOn(habit, date);
+    }, []);
+
+    /**
+     * Get completions within the schedule period (week/month) containing a date
+     */
+    const getScheduleProgress = useCallback((habit: Habit, date: string) => {
+        return ScheduleService.getPeriodProgress(
+            habit,
+            date,
+            d => HabitLogService.isCompleted(habit.id, d)
+        );
+    }, []);
+
+    /**
+     * Change the current year (back to the single-year calendar)
      */
     const setYear = useCallback((year: number): void => {
         setCurrentYear(year);
+        setCalendarRange('year');
         HabitService.updateSettings({ currentYear: year });
     }, []);
 
@@ -208,29 +611,134 @@ export function HabitProvider({ children }: HabitProviderProps) {
         setSelectedHabitIds([]);
     }, []);
 
+    /**
+     * Revert the latest change
+     */
+    const undo = useCallback((): void => {
+        const entry = undoStack.current.at(-1);
+        if (!entry) return;
+
+        undoStack.current = undoStack.current.slice(0, -1);
+        redoStack.current = [...redoStack.current, entry];
+        entry.undo();
+        syncFromServices();
+        notify('undone', entry.label);
+    }, [syncFromServices, notify]);
+
+    /**
+     * Re-apply the latest undone change
+     */
+    const redo = useCallback((): void => {
+        const entry = redoStack.current.at(-1);
+        if (!entry) return;
+
+        redoStack.current = redoStack.current.slice(0, -1);
+        undoStack.current = [...undoStack.current, entry];
+        entry.redo();
+        syncFromServices();
+        notify('redone', entry.label);
+    }, [syncFromServices, notify]);
+
+    /**
+     * Hide the undo toast
+     */
+    const dismissUndoNotice = useCallback((): void => {
+        setUndoNotice(null);
+    }, []);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+            e.preventDefault();
+            if (e.shiftKey) {
+                redo();
+            } else {
+                undo();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
     /**
      * Refresh all data from storage
      */
     const refreshData = useCallback((): void => {
-        loadData();
+        // Recorded changes may no longer match the reloaded data
+        undoStack.current = [];
+        redoStack.current = [];
+        setUndoNotice(null);
+        void loadData();
     }, [loadData]);
 
+    // Reload when another tab (or the installed app) writes.
+    // The settings store only holds the year viewed in that tab, so it is ignored.
+    useEffect(() => {
+        const reload = debounce(refreshData, TAB_SYNC_DELAY);
+
+        return TabSyncService.subscribe(message => {
+            if (message.stores.some(store => store !== 'settings')) {
+                reload();
+            }
+        });
+    }, [refreshData]);
+
+    // Reload when a server sync brought changes from another device
+    useEffect(() => SyncService.subscribe(refreshData), [refreshData]);
+
     const value: HabitContextValue = {
         habits,
+        logs,
         dayStatusMap,
+        pauses,
+        notes,
+        noteDates,
+        streaks,
+        today,
         currentYear,
+        calendarRange,
+        statusRange,
         settings,
         isLoading,
+        loadError,
         createHabit,
         updateHabit,
         deleteHabit,
+        archiveHabit,
+        unarchiveHabit,
         toggleCompletion,
         setCompletion,
         isCompleted,
+        setValue,
+        getValue,
+        setSkipped,
+        isSkipped,
+        getSkipReason,
+        addPause,
+        deletePause,
+        getNote,
+        saveNote,
+        isPaused,
+        isTracked,
+        isScheduled,
+        getScheduleProgress,
         setYear,
+        setCalendarRange,
         selectedHabitIds,
         toggleHabitFilter,
         clearHabitFilters,
+        undo,
+        redo,
+        canUndo: undoStack.current.length > 0,
+        canRedo: redoStack.current.length > 0,
+        undoNotice,
+        dismissUndoNotice,
         refreshData,
     };
 
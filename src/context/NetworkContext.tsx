@@ -1,11 +1,12 @@
 import { createContext, useContext, type ReactNode } from 'react';
-import { useNetworkStatus } from '../hooks';
+import { useNetworkStatus, useSync } from '../hooks';
 import type { NetworkContextValue } from '../types';
 
 /**
  * Network Context
  * 
- * Provides network status information throughout the component tree.
+ * Provides network status information throughout the component tree,
+ * together with the status of the optional server sync.
  * Follows Dependency Inversion Principle - components depend on abstraction (context)
  * rather than concrete implementation.
  */
@@ -22,7 +23,7 @@ interface NetworkProviderProps {
  * NetworkProvider Component
  * 
  * Wraps the application to provide network status context.
- * Uses the useNetworkStatus hook internally.
+ * Uses the useNetworkStatus and useSync hooks internally.
  * 
  * @example
  * ```tsx
@@ -33,12 +34,17 @@ interface NetworkProviderProps {
  */
 export function NetworkProvider({ children }: NetworkProviderProps) {
     const networkStatus = useNetworkStatus();
+    const { sync, syncConfig, setSyncConfig, syncNow } = useSync(networkStatus.isOnline);
 
     const value: NetworkContextValue = {
         status: networkStatus.status,
         isOnline: networkStatus.isOnline,
         isOffline: networkStatus.isOffline,
-        lastChanged: networkStatus.lastChanged
+        lastChanged: networkStatus.lastChanged,
+        sync,
+        syncConfig,
+        setSyncConfig,
+        syncNow
     };
 
     return (
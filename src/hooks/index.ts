@@ -8,3 +8,12 @@
 export { useNetworkStatus } from './useNetworkStatus';
 export { usePWAInstall } from './usePWAInstall';
 export { useSWUpdate } from './useSWUpdate';
+export { useBackup } from './useBackup';
+export { useCsvExport } from './useCsvExport';
+export { useHistoryImport } from './useHistoryImport';
+export { useStats } from './useStats';
+export { useHabitHeatmaps } from './useHabitHeatmaps';
+export { useNotes } from './useNotes';
+export { useReminders } from './useReminders';
+export { useNotificationPermission } from './useNotificationPermission';
+export { useSync } from './useSync';
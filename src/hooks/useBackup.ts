@@ -0,0 +1,65 @@
+import { useCallback } from 'react';
+import { useHabits } from '../context';
+import { BackupService } from '../services';
+import { downloadFile } from '../utils';
+import type { ImportMode, ImportPreview } from '../types';
+
+/**
+ * Custom hook for exporting and importing JSON backups
+ * 
+ * Wraps BackupService and refreshes the habit context after an import.
+ * 
+ * @example
+ * ```tsx
+ * const { exportBackup, readBackup, importBackup } = useBackup();
+ * 
+ * const preview = await readBackup(file);
+ * await importBackup(preview, 'merge');
+ * ```
+ */
+export function useBackup() {
+    const { refreshData } = useHabits();
+
+    /**
+     * Download the full app state as a JSON file
+     */
+    const exportBackup = useCallback(() => {
+        const backup = BackupService.createBackup();
+        downloadFile(
+            BackupService.serialize(backup),
+            BackupService.getFileName(),
+            'application/json'
+        );
+    }, []);
+
+    /**
+     * Read and validate a backup file
+     * 
+     * @throws Error with a user-facing message if the file is not a valid backup
+     */
+    const readBackup = useCallback(async (file: File): Promise<ImportPreview> => {
+        const text = await file.text();
+        return BackupService.preview(text);
+    }, []);
+
+    /**
+     * Apply a previewed backup and reload the app data
+     * 
+     * @throws The storage error if the backup could not be saved (the current data is kept)
+     */
+    const importBackup = useCallback(async (preview: ImportPreview, mode: ImportMode): Promise<void> => {
+        await BackupService.importState(preview.state, mode);
+        refreshData();
+    }, [refreshData]);
+
+    return {
+        /** Download a backup of the current data */
+        exportBackup,
+        /** Parse a backup file and summarise its differences */
+        readBackup,
+        /** Apply a backup in merge or replace mode */
+        importBackup
+    };
+}
+
+export default useBackup;
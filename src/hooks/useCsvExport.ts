@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useHabits } from '../context';
+import { ExportService } from '../services';
+import { downloadFile } from '../utils';
+import type { CsvExportOptions } from '../types';
+
+/**
+ * Custom hook for downloading habit logs as CSV
+ * 
+ * @example
+ * ```tsx
+ * const { exportCsv } = useCsvExport();
+ * exportCsv({ year: 2025, layout: 'long', habitIds: [] });
+ * ```
+ */
+export function useCsvExport() {
+    const { habits } = useHabits();
+
+    /**
+     * Build and download the CSV for the given options
+     */
+    const exportCsv = useCallback((options: CsvExportOptions) => {
+        downloadFile(
+            ExportService.buildCsv(habits, options),
+            ExportService.getFileName(options),
+            'text/csv;charset=utf-8'
+        );
+    }, [habits]);
+
+    return {
+        /** Download a CSV export */
+        exportCsv
+    };
+}
+
+export default useCsvExport;
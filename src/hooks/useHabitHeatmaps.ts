@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { useHabits } from '../context';
+import { HabitLogService, PauseService } from '../services';
+import { addDays, getDatesBetween } from '../utils';
+import type { DateRange, Habit, HabitLog, HeatmapCell } from '../types';
+
+/**
+ * Days shown per habit (the last 365 days, today included)
+ */
+const HEATMAP_DAYS = 365;
+
+/**
+ * Heatmap cell of a logged day: completion, or the logged amount of numeric habits
+ */
+function toHeatmapCell(habit: Habit, log: HabitLog): HeatmapCell {
+    if (log.skipped) {
+        return { progress: 0, isPaused: true, title: log.skipReason ? `Omitido: ${log.skipReason}` : 'Omitido' };
+    }
+
+    const progress = HabitLogService.getLogProgress(habit, log);
+
+    if (habit.target && log.value !== undefined) {
+        return { progress, title: `${log.value} ${habit.target.unit}` };
+    }
+
+    return { progress, title: progress > 0 ? 'Hecho' : undefined };
+}
+
+/**
+ * Custom hook for the per-habit heatmaps
+ *
+ * Builds one heatmap row per habit over the last 365 days, respecting the habit filter.
+ * Skipped and paused days show as paused.
+ *
+ * @example
+ * ```tsx
+ * const { rows, range } = useHabitHeatmaps();
+ * rows[0].cells.get('2024-05-01')?.progress; // 0..1
+ * ```
+ */
+export function useHabitHeatmaps() {
+    const { habits, logs, pauses, selectedHabitIds, today } = useHabits();
+
+    const range: DateRange = useMemo(
+        () => ({ start: addDays(today, -(HEATMAP_DAYS - 1)), end: today }),
+        [today]
+    );
+
+    // Habits tracked at some point of the range
+    const visibleHabits = useMemo(
+        () => habits.filter(h =>
+            (selectedHabitIds.length === 0 || selectedHabitIds.includes(h.id)) &&
+            h.startDate <= range.end &&
+            (!h.endDate || h.endDate >= range.start)
+        ),
+        [habits, selectedHabitIds, range]
+    );
+
+    const rows = useMemo(() => {
+        const cellsByHabit = new Map(visibleHabits.map(h => [h.id, new Map<string, HeatmapCell>()]));
+        const habitsById = new Map(visibleHabits.map(h => [h.id, h]));
+
+        for (const log of logs) {
+            const habit = habitsById.get(log.habitId);
+            if (habit && log.date >= range.start && log.date <= range.end) {
+                cellsByHabit.get(habit.id)!.set(log.date, toHeatmapCell(habit, log));
+            }
+        }
+
+        // Paused days without a log
+        const isPaused = PauseService.createPauseLookup(pauses);
+        for (const pause of pauses) {
+            const start = pause.start > range.start ? pause.start : range.start;
+            const end = pause.end < range.end ? pause.end : range.end;
+
+            for (const date of getDatesBetween(start, end)) {
+                for (const habit of visibleHabits) {
+                    const cells = cellsByHabit.get(habit.id)!;
+                    if (!cells.has(date) && isPaused(habit.id, date)) {
+                        cells.set(date, { progress: 0, isPaused: true, title: 'En pausa' });
+                    }
+                }
+            }
+        }
+
+        return visibleHabits.map(habit => ({ habit, cells: cellsByHabit.get(habit.id)! }));
+    }, [visibleHabits, logs, pauses, range]);
+
+    return {
+        /** One row per visible habit, in habit order */
+        rows,
+        /** Dates covered by the heatmaps */
+        range
+    };
+}
+
+export default useHabitHeatmaps;
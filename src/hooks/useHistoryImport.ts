@@ -0,0 +1,78 @@
+import { useCallback } from 'react';
+import { useHabits } from '../context';
+import { HistoryImportService } from '../services';
+import type {
+    HistoryEntry,
+    HistorySourceFormat,
+    GenericColumnMapping,
+    SourceHabit,
+    HabitMappingTarget,
+    HistoryImportResult
+} from '../types';
+
+/**
+ * Custom hook for the history import wizard
+ * 
+ * Wraps HistoryImportService and refreshes the habit context after importing.
+ */
+export function useHistoryImport() {
+    const { habits, refreshData } = useHabits();
+
+    /**
+     * Read a CSV file into rows and detect its format
+     */
+    const readFile = useCallback(async (file: File): Promise<{ rows: string[][]; format: HistorySourceFormat }> => {
+        const rows = HistoryImportService.readRows(await file.text());
+        return { rows, format: HistoryImportService.detectFormat(rows) };
+    }, []);
+
+    /**
+     * Convert rows to entries using the chosen format
+     */
+    const parseEntries = useCallback((
+        rows: string[][],
+        format: HistorySourceFormat,
+        columns: GenericColumnMapping,
+        hasHeader: boolean
+    ): HistoryEntry[] => {
+        return format === 'loop'
+            ? HistoryImportService.parseLoop(rows)
+            : HistoryImportService.parseGeneric(rows, columns, hasHeader);
+    }, []);
+
+    /**
+     * Suggest where each source habit should go
+     */
+    const suggestMapping = useCallback((sourceHabits: SourceHabit[]): Record<string, HabitMappingTarget> => {
+        return HistoryImportService.suggestMapping(sourceHabits, habits);
+    }, [habits]);
+
+    /**
+     * Write the entries and reload the app data
+     */
+    const importHistory = useCallback(async (
+        entries: HistoryEntry[],
+        mapping: Record<string, HabitMappingTarget>
+    ): Promise<HistoryImportResult> => {
+        const result = await HistoryImportService.importEntries(entries, mapping);
+        refreshData();
+        return result;
+    }, [refreshData]);
+
+    return {
+        /** Read and detect a CSV file */
+        readFile,
+        /** Guess generic columns from a header row */
+        guessColumns: HistoryImportService.guessColumns,
+        /** Parse rows into entries */
+        parseEntries,
+        /** List the habits found in the entries */
+        getSourceHabits: HistoryImportService.getSourceHabits,
+        /** Suggest a habit mapping */
+        suggestMapping,
+        /** Write the entries */
+        importHistory
+    };
+}
+
+export default useHistoryImport;
@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useHabits } from '../context';
+import { NoteService } from '../services';
+
+/**
+ * Custom hook for searching day notes and summarising moods
+ * 
+ * @param query - Text to search for in the notes
+ * 
+ * @example
+ * ```tsx
+ * const { results, moodSummary } = useNotes('cansado');
+ * ```
+ */
+export function useNotes(query: string) {
+    const { habits, logs, pauses, notes } = useHabits();
+
+    const results = useMemo(() => NoteService.search(query, notes), [query, notes]);
+
+    const moodSummary = useMemo(
+        () => NoteService.getMoodSummary(habits, logs, pauses, notes),
+        [habits, logs, pauses, notes]
+    );
+
+    return {
+        /** Matching notes, newest first */
+        results,
+        /** Mood vs. mandatory completion */
+        moodSummary
+    };
+}
+
+export default useNotes;
@@ -0,0 +1,26 @@
+import { useCallback, useState } from 'react';
+import { ReminderService } from '../services';
+import type { ReminderPermission } from '../types';
+
+/**
+ * Custom hook for the notification permission used by habit reminders
+ * 
+ * @example
+ * ```tsx
+ * const { permission, requestPermission } = useNotificationPermission();
+ * if (permission === 'default') await requestPermission();
+ * ```
+ */
+export function useNotificationPermission() {
+    const [permission, setPermission] = useState<ReminderPermission>(() => ReminderService.getPermission());
+
+    const requestPermission = useCallback(async () => {
+        const result = await ReminderService.requestPermission();
+        setPermission(result);
+        return result;
+    }, []);
+
+    return { permission, requestPermission };
+}
+
+export default useNotificationPermission;
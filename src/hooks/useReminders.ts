@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useHabits } from '../context';
+import { HabitLogService, ReminderService } from '../services';
+import type { ReminderMessage } from '../types';
+
+/**
+ * Custom hook for habit reminder notifications
+ * 
+ * - Hands today's pending reminders to the service worker whenever habits or logs change
+ * - Without Notification Triggers, fires them with timers while the app is open
+ * - Tracks the habit whose notification was tapped (quick-log)
+ * - Reloads the data after a notification action wrote a log in the service worker
+ * 
+ * @example
+ * ```tsx
+ * const { quickLogHabitId, closeQuickLog } = useReminders();
+ * ```
+ */
+export function useReminders() {
+    const { habits, pauses, dayStatusMap, today, refreshData } = useHabits();
+    const [quickLogHabitId, setQuickLogHabitId] = useState<string | null>(
+        () => ReminderService.isSupported() ? ReminderService.getQuickLogParam() : null
+    );
+
+    // today changes at midnight, which plans the new day's reminders;
+    // dayStatusMap is rebuilt after every log write, so it doubles as a "logs changed" signal
+    useEffect(() => {
+        if (ReminderService.getPermission() !== 'granted') return;
+
+        const reminders = ReminderService.getPendingReminders(habits, HabitLogService.getLogs(), pauses);
+        void ReminderService.sync(reminders);
+
+        if (ReminderService.supportsTriggers()) return;
+
+        const now = Date.now();
+        const timers = reminders
+            .filter(reminder => reminder.at > now)
+            .map(reminder => window.setTimeout(() => {
+                // Skip it if the habit was done in the meantime
+                if (!HabitLogService.isCompleted(reminder.habitId, today)) {
+                    void ReminderService.show(reminder);
+                }
+            }, reminder.at - now));
+
+        return () => timers.forEach(timer => window.clearTimeout(timer));
+    }, [habits, pauses, dayStatusMap, today]);
+
+    // Messages from the service worker while the app is open
+    useEffect(() => {
+        if (!ReminderService.isSupported()) return;
+
+        ReminderService.clearQuickLogParam();
+
+        const handleMessage = (event: MessageEvent<ReminderMessage>) => {
+            if (event.data?.type === 'OPEN_QUICK_LOG') {
+                setQuickLogHabitId(event.data.habitId);
+            } else if (event.data?.type === 'LOGS_CHANGED') {
+                refreshData();
+            }
+        };
+
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, [refreshData]);
+
+    const closeQuickLog = useCallback(() => setQuickLogHabitId(null), []);
+
+    return { quickLogHabitId, closeQuickLog };
+}
+
+export default useReminders;
@@ -26,7 +26,7 @@ export interface SWUpdateState {
  * - Manual update checking
  * - Safe update application (user-triggered reload)
  * 
- * Important: localStorage data is NOT affected by SW updates!
+ * Important: IndexedDB data is NOT affected by SW updates!
  * 
  * @returns SWUpdateState object with update status and controls
  */
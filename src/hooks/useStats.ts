@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useHabits } from '../context';
+import { StatsService } from '../services';
+import type { StatsSummary } from '../types';
+
+/**
+ * Custom hook for the statistics dashboard
+ * 
+ * Computes completion rates for the current year, respecting the habit filter.
+ * 
+ * @example
+ * ```tsx
+ * const { stats, habits } = useStats();
+ * stats.byWeekday[6].rate; // Sunday completion rate
+ * ```
+ */
+export function useStats() {
+    const { habits, logs, pauses, currentYear, selectedHabitIds, today } = useHabits();
+
+    const visibleHabits = useMemo(
+        () => selectedHabitIds.length > 0
+            ? habits.filter(h => selectedHabitIds.includes(h.id))
+            : habits,
+        [habits, selectedHabitIds]
+    );
+
+    const stats: StatsSummary = useMemo(
+        () => StatsService.getSummary(visibleHabits, logs, pauses, currentYear, today),
+        [visibleHabits, logs, pauses, currentYear, today]
+    );
+
+    return {
+        /** Computed statistics */
+        stats,
+        /** Habits included in the statistics */
+        habits: visibleHabits,
+        /** Year of the per-habit/month/weekday figures */
+        year: currentYear
+    };
+}
+
+export default useStats;
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SyncService } from '../services';
+import type { SyncConfig, SyncStatus } from '../types';
+
+/**
+ * Time between sync rounds while the app is open
+ */
+const SYNC_INTERVAL = 30 * 1000;
+
+/**
+ * Custom hook for the optional server sync
+ *
+ * Runs a sync round when sync is turned on, when the connection returns
+ * and periodically while online. Offline, local changes stay queued
+ * and only the pending count is refreshed.
+ *
+ * @param isOnline - Current connection status
+ *
+ * @example
+ * ```tsx
+ * const { sync, syncNow } = useSync(isOnline);
+ * sync.pendingChanges; // changes waiting for the connection
+ * ```
+ */
+export function useSync(isOnline: boolean) {
+    const [syncConfig, setConfigState] = useState<SyncConfig>(() => SyncService.getConfig());
+    const [status, setStatus] = useState<SyncStatus>(() => ({
+        state: 'idle',
+        pendingChanges: 0,
+        lastSyncedAt: SyncService.getLastSyncedAt(),
+        error: null,
+    }));
+    const isRunning = useRef(false);
+
+    /**
+     * Run one round, or only refresh the pending count while offline
+     */
+    const syncNow = useCallback(async () => {
+        if (!syncConfig.enabled || isRunning.current) return;
+
+        isRunning.current = true;
+        try {
+            if (!isOnline) {
+                const pendingChanges = await SyncService.countPendingChanges();
+                setStatus(prev => ({ ...prev, state: 'offline', pendingChanges }));
+                return;
+            }
+
+            setStatus(prev => ({ ...prev, state: 'syncing' }));
+
+            try {
+                await SyncService.sync();
+                // Every change read by the round was pushed; later ones are counted on the next round
+                setStatus({
+                    state: 'idle',
+                    pendingChanges: 0,
+                    lastSyncedAt: SyncService.getLastSyncedAt(),
+                    error: null,
+                });
+            } catch (error) {
+                console.error('Error syncing:', error);
+                setStatus(prev => ({
+                    ...prev,
+                    state: 'error',
+                    error: error instanceof Error ? error.message : 'Error de sincronización',
+                }));
+            }
+        } finally {
+            isRunning.current = false;
+        }
+    }, [syncConfig.enabled, isOnline]);
+
+    // Sync on start, on reconnect and periodically
+    useEffect(() => {
+        if (!syncConfig.enabled) return;
+
+        void syncNow();
+        const interval = window.setInterval(() => void syncNow(), SYNC_INTERVAL);
+
+        return () => window.clearInterval(interval);
+    }, [syncConfig, syncNow]);
+
+    /**
+     * Save the sync settings
+     */
+    const setSyncConfig = useCallback((config: SyncConfig) => {
+        SyncService.setConfig(config);
+        setConfigState(SyncService.getConfig());
+    }, []);
+
+    return {
+        sync: syncConfig.enabled ? status : { ...status, state: 'disabled' as const },
+        syncConfig,
+        setSyncConfig,
+        syncNow,
+    };
+}
+
+export default useSync;
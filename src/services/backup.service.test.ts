@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { BackupService } from './backup.service';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import type { HabitAppState, HabitLog } from '../types';
+
+const habit = {
+    id: 'habit-1',
+    name: 'Leer',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-01',
+};
+
+function createState(logs: HabitLog[], notes: HabitAppState['notes'] = []): HabitAppState {
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        habits: [habit],
+        logs,
+        pauses: [],
+        notes,
+        settings: { currentYear: 2026 },
+    };
+}
+
+describe('BackupService.merge', () => {
+    it('keeps the most recently changed log and note of each day', () => {
+        const current = createState(
+            [
+                { habitId: habit.id, date: '2026-03-01', completed: true, updatedAt: '2026-03-05T10:00:00.000Z' },
+                { habitId: habit.id, date: '2026-03-02', completed: false, updatedAt: '2026-03-02T10:00:00.000Z' },
+            ],
+            [{ date: '2026-03-01', text: 'Nueva', updatedAt: '2026-03-05T10:00:00.000Z' }]
+        );
+        const backup = createState(
+            [
+                { habitId: habit.id, date: '2026-03-01', completed: false, updatedAt: '2026-03-01T10:00:00.000Z' },
+                { habitId: habit.id, date: '2026-03-02', completed: true, updatedAt: '2026-03-03T10:00:00.000Z' },
+            ],
+            [{ date: '2026-03-01', text: 'Vieja', updatedAt: '2026-03-01T10:00:00.000Z' }]
+        );
+
+        const merged = BackupService.merge(current, backup);
+
+        expect(merged.logs).toEqual([current.logs[0], backup.logs[1]]);
+        expect(merged.notes).toEqual(current.notes);
+    });
+
+    it('lets the backup win ties and records without timestamps', () => {
+        const current = createState([{ habitId: habit.id, date: '2026-03-01', completed: true }]);
+        const backup = createState([{ habitId: habit.id, date: '2026-03-01', completed: false }]);
+
+        expect(BackupService.merge(current, backup).logs).toEqual(backup.logs);
+    });
+});
+
+describe('BackupService.summarize', () => {
+    it('counts logs that differ in completion, amount or skip as conflicts', () => {
+        const current = createState([
+            { habitId: habit.id, date: '2026-03-01', completed: true, value: 5 },
+            { habitId: habit.id, date: '2026-03-02', completed: false },
+            { habitId: habit.id, date: '2026-03-03', completed: true },
+            { habitId: habit.id, date: '2026-03-04', completed: true },
+        ]);
+        const backup = createState([
+            { habitId: habit.id, date: '2026-03-01', completed: true, value: 6 },
+            { habitId: habit.id, date: '2026-03-02', completed: false, skipped: true },
+            { habitId: habit.id, date: '2026-03-03', completed: true },
+            { habitId: habit.id, date: '2026-03-05', completed: true },
+        ]);
+
+        const summary = BackupService.summarize(current, backup);
+
+        expect(summary.conflictingLogs).toBe(2);
+        expect(summary.newLogs).toBe(1);
+    });
+});
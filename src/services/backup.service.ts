@@ -0,0 +1,351 @@
+import { isValidDateString, toLocalDateString } from '../utils';
+import { HabitService } from './habit.service';
+import { MigrationService, CURRENT_SCHEMA_VERSION, type UnversionedAppState } from './migration.service';
+import type {
+    Habit,
+    HabitLog,
+    HabitSchedule,
+    HabitTarget,
+    HabitPause,
+    DayNote,
+    HabitAppState,
+    HabitBackup,
+    ImportMode,
+    ImportPreview,
+    ImportSummary
+} from '../types';
+
+/**
+ * Backup format marker
+ */
+const BACKUP_FORMAT = 'habit-tracker-backup';
+
+/**
+ * Current version of the backup envelope
+ */
+const BACKUP_VERSION = 1;
+
+/**
+ * Check that a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value is a whole number of at least 1
+ */
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Validate the shape of a habit schedule
+ */
+function isValidSchedule(value: unknown): value is HabitSchedule {
+    if (!isRecord(value)) return false;
+
+    switch (value.type) {
+        case 'daily':
+            return true;
+        case 'weekdays':
+            return Array.isArray(value.days) &&
+                value.days.length > 0 &&
+                value.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+        case 'weeklyQuota':
+        case 'monthlyQuota':
+            return isPositiveInteger(value.times);
+        case 'interval':
+            return isPositiveInteger(value.every);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Validate the shape of a numeric target
+ */
+function isValidTarget(value: unknown): value is HabitTarget {
+    return isRecord(value) &&
+        typeof value.value === 'number' &&
+        Number.isFinite(value.value) &&
+        typeof value.unit === 'string' &&
+        (value.comparison === 'atLeast' || value.comparison === 'atMost');
+}
+
+/**
+ * Validate the shape of a habit entry
+ *
+ * @param schemaVersion - Schema version of the backup: start dates are backfilled
+ * from createdAt by the version 1 migration, so older backups may lack them
+ */
+function isValidHabit(value: unknown, schemaVersion: number): value is Habit {
+    return isRecord(value) &&
+        typeof value.id === 'string' &&
+        typeof value.name === 'string' &&
+        typeof value.color === 'string' &&
+        typeof value.mandatory === 'boolean' &&
+        typeof value.createdAt === 'string' &&
+        !Number.isNaN(Date.parse(value.createdAt)) &&
+        (typeof value.startDate === 'string'
+            ? isValidDateString(value.startDate)
+            : value.startDate === undefined && schemaVersion < 1) &&
+        (value.target === undefined || isValidTarget(value.target)) &&
+        (value.schedule === undefined || isValidSchedule(value.schedule)) &&
+        (value.updatedAt === undefined || typeof value.updatedAt === 'string') &&
+        (value.reminder === undefined || (typeof value.reminder === 'string' && /^\d{2}:\d{2}$/.test(value.reminder))) &&
+        (value.endDate === undefined || (typeof value.endDate === 'string' && isValidDateString(value.endDate))) &&
+        (value.archivedAt === undefined || typeof value.archivedAt === 'string');
+}
+
+/**
+ * Validate the shape of a log entry
+ */
+function isValidLog(value: unknown): value is HabitLog {
+    return isRecord(value) &&
+        typeof value.habitId === 'string' &&
+        typeof value.date === 'string' &&
+        isValidDateString(value.date) &&
+        typeof value.completed === 'boolean' &&
+        (value.value === undefined || typeof value.value === 'number') &&
+        (value.skipped === undefined || typeof value.skipped === 'boolean') &&
+        (value.skipReason === undefined || typeof value.skipReason === 'string') &&
+        (value.updatedAt === undefined || typeof value.updatedAt === 'string');
+}
+
+/**
+ * Validate the shape of a pause entry
+ */
+function isValidPause(value: unknown): value is HabitPause {
+    return isRecord(value) &&
+        typeof value.id === 'string' &&
+        typeof value.start === 'string' &&
+        isValidDateString(value.start) &&
+        typeof value.end === 'string' &&
+        isValidDateString(value.end) &&
+        (value.habitId === undefined || typeof value.habitId === 'string');
+}
+
+/**
+ * Validate the shape of a day note
+ */
+function isValidNote(value: unknown): value is DayNote {
+    return isRecord(value) &&
+        typeof value.date === 'string' &&
+        isValidDateString(value.date) &&
+        typeof value.text === 'string' &&
+        (value.mood === undefined || (typeof value.mood === 'number' && value.mood >= 1 && value.mood <= 5));
+}
+
+/**
+ * Unique key of a log (one log per habit and date)
+ */
+function logKey(log: HabitLog): string {
+    return `${log.habitId}|${log.date}`;
+}
+
+/**
+ * Put a backup record into a merge unless the current one was changed more recently
+ * (last writer wins, like putUnlessNewer). On a tie, or without timestamps, the backup wins.
+ */
+function mergeRecord<T extends { updatedAt?: string }>(records: Map<string, T>, key: string, incoming: T): void {
+    const current = records.get(key);
+    if (!current || (incoming.updatedAt ?? '') >= (current.updatedAt ?? '')) {
+        records.set(key, incoming);
+    }
+}
+
+/**
+ * Backup Service
+ * 
+ * Exports the full app state as a versioned JSON file and imports it back,
+ * either merged into the current data or replacing it.
+ * 
+ * Follows Single Responsibility Principle - only handles backup files.
+ */
+export class BackupService {
+    /**
+     * Create a backup of the current app state
+     */
+    static createBackup(): HabitBackup {
+        return {
+            format: BACKUP_FORMAT,
+            backupVersion: BACKUP_VERSION,
+            exportedAt: new Date().toISOString(),
+            state: HabitService.getState(),
+        };
+    }
+
+    /**
+     * Serialize a backup to pretty-printed JSON
+     */
+    static serialize(backup: HabitBackup): string {
+        return JSON.stringify(backup, null, 2);
+    }
+
+    /**
+     * File name for a backup created on the given date
+     */
+    static getFileName(date: Date = new Date()): string {
+        return `habit-tracker-backup-${toLocalDateString(date)}.json`;
+    }
+
+    /**
+     * Parse and validate a backup file
+     * 
+     * @param text - Raw file contents
+     * @returns The backup state migrated to the current schema version
+     * @throws Error with a user-facing message if the file is not a valid backup
+     */
+    static parse(text: string): { state: HabitAppState; exportedAt: string } {
+        let data: unknown;
+
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error('El archivo no es un JSON válido');
+        }
+
+        if (!isRecord(data) || data.format !== BACKUP_FORMAT || !isRecord(data.state)) {
+            throw new Error('El archivo no es una copia de seguridad de Habit Tracker');
+        }
+
+        if (typeof data.backupVersion !== 'number' || data.backupVersion > BACKUP_VERSION) {
+            throw new Error('La copia de seguridad es de una versión más reciente de la app');
+        }
+
+        const { state } = data;
+        const schemaVersion = state.schemaVersion;
+
+        if (schemaVersion !== undefined && (typeof schemaVersion !== 'number' || schemaVersion > CURRENT_SCHEMA_VERSION)) {
+            throw new Error('La copia de seguridad es de una versión más reciente de la app');
+        }
+
+        if (!Array.isArray(state.habits) || !state.habits.every(habit => isValidHabit(habit, schemaVersion ?? 0))) {
+            throw new Error('La copia de seguridad contiene hábitos no válidos');
+        }
+
+        if (!Array.isArray(state.logs) || !state.logs.every(isValidLog)) {
+            throw new Error('La copia de seguridad contiene registros no válidos');
+        }
+
+        // Pauses only exist from schema version 2 on
+        if (state.pauses !== undefined && (!Array.isArray(state.pauses) || !state.pauses.every(isValidPause))) {
+            throw new Error('La copia de seguridad contiene pausas no válidas');
+        }
+
+        // Notes only exist from schema version 3 on
+        if (state.notes !== undefined && (!Array.isArray(state.notes) || !state.notes.every(isValidNote))) {
+            throw new Error('La copia de seguridad contiene notas no válidas');
+        }
+
+        const current = HabitService.getSettings();
+        const settings = isRecord(state.settings) ? { ...current, ...state.settings } : current;
+
+        return {
+            state: MigrationService.migrate({ ...state, settings } as UnversionedAppState),
+            exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        };
+    }
+
+    /**
+     * Parse a backup and compare it with the current data
+     * 
+     * @throws Error with a user-facing message if the file is not a valid backup
+     */
+    static preview(text: string): ImportPreview {
+        const { state, exportedAt } = this.parse(text);
+
+        return {
+            state,
+            exportedAt,
+            summary: this.summarize(HabitService.getState(), state),
+        };
+    }
+
+    /**
+     * Compare a backup with the current data
+     */
+    static summarize(current: HabitAppState, incoming: HabitAppState): ImportSummary {
+        const currentHabitIds = new Set(current.habits.map(h => h.id));
+        const currentLogs = new Map(current.logs.map(log => [logKey(log), log]));
+
+        let newLogs = 0;
+        let conflictingLogs = 0;
+
+        for (const log of incoming.logs) {
+            const existing = currentLogs.get(logKey(log));
+            if (!existing) {
+                newLogs++;
+            } else if (
+                existing.completed !== log.completed ||
+                existing.value !== log.value ||
+                (existing.skipped ?? false) !== (log.skipped ?? false)
+            ) {
+                conflictingLogs++;
+            }
+        }
+
+        return {
+            newHabits: incoming.habits.filter(h => !currentHabitIds.has(h.id)),
+            existingHabits: incoming.habits.filter(h => currentHabitIds.has(h.id)),
+            newLogs,
+            conflictingLogs,
+            totalLogs: incoming.logs.length,
+        };
+    }
+
+    /**
+     * Merge a backup into the current data.
+     * Everything in the current data is kept; where both contain the same habit,
+     * habit/date log or day note, the most recently changed one wins
+     * (so an old backup doesn't undo newer changes). Pauses have no timestamp:
+     * the backup's copy wins.
+     */
+    static merge(current: HabitAppState, incoming: HabitAppState): HabitAppState {
+        const habits = new Map(current.habits.map(h => [h.id, h]));
+        for (const habit of incoming.habits) {
+            mergeRecord(habits, habit.id, habit);
+        }
+
+        const logs = new Map(current.logs.map(log => [logKey(log), log]));
+        for (const log of incoming.logs) {
+            mergeRecord(logs, logKey(log), log);
+        }
+
+        const pauses = new Map(current.pauses.map(p => [p.id, p]));
+        for (const pause of incoming.pauses) {
+            pauses.set(pause.id, pause);
+        }
+
+        const notes = new Map(current.notes.map(n => [n.date, n]));
+        for (const note of incoming.notes) {
+            mergeRecord(notes, note.date, note);
+        }
+
+        return {
+            ...current,
+            habits: Array.from(habits.values()),
+            logs: Array.from(logs.values()),
+            pauses: Array.from(pauses.values()),
+            notes: Array.from(notes.values()),
+        };
+    }
+
+    /**
+     * Apply a backup to storage
+     * 
+     * @param incoming - Validated backup state (see `parse`)
+     * @param mode - Merge into or replace the current data
+     * @throws The storage error if the state could not be saved
+     */
+    static async importState(incoming: HabitAppState, mode: ImportMode): Promise<void> {
+        const state = mode === 'replace'
+            ? incoming
+            : this.merge(HabitService.getState(), incoming);
+
+        await HabitService.replaceState(state);
+    }
+}
+
+export default BackupService;
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExportService } from './export.service';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitService } from './habit.service';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import type { Habit } from '../types';
+
+const archived: Habit = {
+    id: 'habit-1',
+    name: 'Leer',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-02',
+    endDate: '2026-01-03',
+    archivedAt: '2026-01-03T20:00:00.000Z',
+};
+
+const water: Habit = {
+    ...archived,
+    id: 'habit-2',
+    name: 'Agua',
+    target: { value: 8, unit: 'vasos', comparison: 'atLeast' },
+};
+
+beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers({ now: new Date(2026, 0, 4, 12, 0), toFake: ['Date'] });
+    vi.spyOn(HabitDatabaseService, 'replaceState').mockResolvedValue();
+
+    await HabitService.replaceState({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        habits: [archived, water],
+        logs: [
+            { habitId: archived.id, date: '2026-01-02', completed: true },
+            { habitId: water.id, date: '2026-01-03', completed: false, value: 5 },
+        ],
+        pauses: [],
+        notes: [],
+        settings: { currentYear: 2026 },
+    });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('ExportService.buildWideCsv', () => {
+    it('leaves the days outside the start and end dates empty', () => {
+        expect(ExportService.buildWideCsv(2026, [archived, water]).split(/\r?\n/)).toEqual([
+            'date,Leer,Agua',
+            '2026-01-01,,',
+            '2026-01-02,1,0',
+            '2026-01-03,0,5',
+            '2026-01-04,,',
+        ]);
+    });
+});
@@ -0,0 +1,96 @@
+import { getDatesBetween, getToday, toCsv } from '../utils';
+import { HabitLogService } from './habitLog.service';
+import { ScheduleService } from './schedule.service';
+import type { Habit, CsvExportOptions } from '../types';
+
+/**
+ * Export Service
+ * 
+ * Builds CSV exports of habit logs for spreadsheet analysis.
+ * 
+ * Follows Single Responsibility Principle - only formats exports.
+ */
+export class ExportService {
+    /**
+     * Build the CSV for the given options
+     * 
+     * @param habits - All habits (used for names and the mandatory flag)
+     * @param options - Year, layout and habit selection
+     * @returns CSV text
+     */
+    static buildCsv(habits: Habit[], options: CsvExportOptions): string {
+        const selectedHabits = options.habitIds.length > 0
+            ? habits.filter(h => options.habitIds.includes(h.id))
+            : habits;
+
+        return options.layout === 'long'
+            ? this.buildLongCsv(options.year, selectedHabits)
+            : this.buildWideCsv(options.year, selectedHabits);
+    }
+
+    /**
+     * Long format: one row per log
+     * Columns: date, habit, mandatory, completed, value (numeric habits only), skipped
+     */
+    static buildLongCsv(year: number, habits: Habit[]): string {
+        const habitsById = new Map(habits.map(h => [h.id, h]));
+        const habitOrder = new Map(habits.map((h, i) => [h.id, i]));
+
+        const rows = HabitLogService.getLogsForYear(year)
+            .filter(log => habitsById.has(log.habitId))
+            .sort((a, b) => a.date.localeCompare(b.date) ||
+                habitOrder.get(a.habitId)! - habitOrder.get(b.habitId)!)
+            .map(log => {
+                const habit = habitsById.get(log.habitId)!;
+                return [
+                    log.date,
+                    habit.name,
+                    habit.mandatory,
+                    HabitLogService.isLogDone(habit, log),
+                    habit.target ? log.value ?? '' : '',
+                    log.skipped ?? false,
+                ];
+            });
+
+        return toCsv([['date', 'habit', 'mandatory', 'completed', 'value', 'skipped'], ...rows]);
+    }
+
+    /**
+     * Wide format: one row per day of the year (up to today), one column per habit.
+     * Cells are 1 (completed), 0 (not completed) or empty (outside the habit's start and end dates);
+     * numeric habits show the logged value instead.
+     */
+    static buildWideCsv(year: number, habits: Habit[]): string {
+        const logs = new Map(
+            HabitLogService.getLogsForYear(year).map(log => [`${log.habitId}|${log.date}`, log])
+        );
+
+        const today = getToday();
+        const rows: (string | number)[][] = [];
+
+        for (const date of getDatesBetween(`${year}-01-01`, `${year}-12-31`)) {
+            if (date > today) break;
+
+            rows.push([
+                date,
+                ...habits.map(habit => {
+                    if (!ScheduleService.isTracked(habit, date)) return '';
+                    const log = logs.get(`${habit.id}|${date}`);
+                    if (habit.target) return log?.value ?? 0;
+                    return HabitLogService.isLogDone(habit, log) ? 1 : 0;
+                }),
+            ]);
+        }
+
+        return toCsv([['date', ...habits.map(h => h.name)], ...rows]);
+    }
+
+    /**
+     * File name for a CSV export
+     */
+    static getFileName(options: CsvExportOptions): string {
+        return `habit-tracker-${options.year}-${options.layout}.csv`;
+    }
+}
+
+export default ExportService;
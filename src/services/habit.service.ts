@@ -1,20 +1,16 @@
-import { generateId } from '../utils';
-import { StorageService } from './storage.service';
+import { generateId, getToday } from '../utils';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { LogStoreService } from './logStore.service';
+import { MigrationService, CURRENT_SCHEMA_VERSION } from './migration.service';
 import type {
     Habit,
+    HabitLog,
     HabitAppState,
     CreateHabitData,
     UpdateHabitData,
     HabitSettings
 } from '../types';
 
-/**
- * Storage keys for habit data
- */
-const STORAGE_KEYS = {
-    APP_STATE: 'habit-tracker-state',
-} as const;
-
 /**
  * Default app settings
  */
@@ -26,40 +22,82 @@ const DEFAULT_SETTINGS: HabitSettings = {
  * Habit Service
  * 
  * Handles all CRUD operations for habits.
- * Data is persisted to localStorage for offline-first functionality.
+ * Data is persisted to IndexedDB for offline-first functionality.
+ * The state is loaded once with `load()` and then kept in memory,
+ * so reads stay synchronous while writes are persisted in the background.
+ * Logs are indexed by LogStoreService; `state.logs` mirrors it.
  * 
  * Follows Single Responsibility Principle - only handles habit data management.
  */
 export class HabitService {
+    /** In-memory copy of the persisted state */
+    private static state: HabitAppState = {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        habits: [],
+        logs: [],
+        pauses: [],
+        notes: [],
+        settings: DEFAULT_SETTINGS,
+    };
+
     /**
-     * Get the current app state from storage
+     * Load the app state from IndexedDB into memory,
+     * upgrading it to the current schema version first
+     *
+     * @throws The IndexedDB error if the database can't be read or the upgrade saved
      */
-    static getState(): HabitAppState {
-        const stored = StorageService.get<HabitAppState>(STORAGE_KEYS.APP_STATE);
-
-        if (!stored) {
-            return {
-                habits: [],
-                logs: [],
-                settings: DEFAULT_SETTINGS,
-            };
+    static async load(): Promise<HabitAppState> {
+        const stored = await HabitDatabaseService.loadState();
+        const migrated = MigrationService.migrate(stored);
+
+        this.state = {
+            ...migrated,
+            settings: { ...DEFAULT_SETTINGS, ...migrated.settings },
+        };
+        LogStoreService.load(this.state.logs);
+
+        // Persist the upgraded state so migrations only run once
+        if (MigrationService.needsMigration(stored)) {
+            await HabitDatabaseService.replaceState(this.state);
         }
 
-        return stored;
+        return this.state;
     }
 
     /**
-     * Save the app state to storage
+     * Get the current app state, with every log (used by backups)
      */
-    private static saveState(state: HabitAppState): void {
-        StorageService.set(STORAGE_KEYS.APP_STATE, state);
+    static getState(): HabitAppState {
+        this.state.logs = LogStoreService.getAll();
+        return this.state;
+    }
+
+    /**
+     * Get the in-memory state without refreshing its logs, for code that only reads or
+     * replaces habits, pauses, notes and settings. Rebuilding the log list is skipped,
+     * since it changes on every toggle (logs are read through LogStoreService).
+     */
+    static getStateWithoutLogs(): Omit<HabitAppState, 'logs'> {
+        return this.state;
+    }
+
+    /**
+     * Replace the whole app state (used when restoring backups).
+     * The in-memory state only changes once the database has been written.
+     *
+     * @throws The IndexedDB error if the state could not be saved
+     */
+    static async replaceState(state: HabitAppState): Promise<void> {
+        await HabitDatabaseService.replaceState(state);
+        this.state = state;
+        LogStoreService.load(state.logs);
     }
 
     /**
      * Get all habits
      */
     static getHabits(): Habit[] {
-        return this.getState().habits;
+        return this.state.habits;
     }
 
     /**
@@ -76,20 +114,24 @@ export class HabitService {
      * @returns The created habit
      */
     static createHabit(data: CreateHabitData): Habit {
-        const state = this.getState();
-        const today = new Date().toISOString().split('T')[0];
+        const state = this.state;
+        const now = new Date().toISOString();
 
         const newHabit: Habit = {
             id: generateId(),
             name: data.name,
             color: data.color,
             mandatory: data.mandatory,
-            createdAt: new Date().toISOString(),
-            startDate: data.startDate || today,
+            createdAt: now,
+            updatedAt: now,
+            startDate: data.startDate || getToday(),
+            ...(data.target && { target: data.target }),
+            ...(data.schedule && { schedule: data.schedule }),
+            ...(data.reminder && { reminder: data.reminder }),
         };
 
-        state.habits.push(newHabit);
-        this.saveState(state);
+        state.habits = [...state.habits, newHabit];
+        void HabitDatabaseService.putHabit(newHabit);
 
         return newHabit;
     }
@@ -102,20 +144,23 @@ export class HabitService {
      * @returns The updated habit or null if not found
      */
     static updateHabit(id: string, updates: UpdateHabitData): Habit | null {
-        const state = this.getState();
-        const habitIndex = state.habits.findIndex(h => h.id === id);
+        const state = this.state;
+        const existing = state.habits.find(h => h.id === id);
 
-        if (habitIndex === -1) {
+        if (!existing) {
             return null;
         }
 
-        state.habits[habitIndex] = {
-            ...state.habits[habitIndex],
+        const updatedHabit: Habit = {
+            ...existing,
             ...updates,
+            updatedAt: new Date().toISOString(),
         };
 
-        this.saveState(state);
-        return state.habits[habitIndex];
+        state.habits = state.habits.map(h => (h.id === id ? updatedHabit : h));
+        void HabitDatabaseService.putHabit(updatedHabit);
+
+        return updatedHabit;
     }
 
     /**
@@ -125,37 +170,111 @@ export class HabitService {
      * @returns True if deleted, false if not found
      */
     static deleteHabit(id: string): boolean {
-        const state = this.getState();
-        const initialLength = state.habits.length;
+        const state = this.state;
+
+        if (!state.habits.some(h => h.id === id)) {
+            return false;
+        }
 
-        // Remove the habit
+        // Remove the habit and all logs for this habit
         state.habits = state.habits.filter(h => h.id !== id);
+        LogStoreService.deleteHabit(id);
 
-        // Also remove all logs for this habit
-        state.logs = state.logs.filter(log => log.habitId !== id);
+        void HabitDatabaseService.deleteHabit(id);
+        return true;
+    }
 
-        if (state.habits.length === initialLength) {
-            return false;
+    /**
+     * Archive a habit: it stops counting after the end date but keeps its logs
+     * 
+     * @param id - Habit ID
+     * @param endDate - Last tracked date "YYYY-MM-DD" (default: today)
+     * @returns The archived habit or null if not found
+     */
+    static archiveHabit(id: string, endDate: string = getToday()): Habit | null {
+        const existing = this.getHabitById(id);
+
+        if (!existing) {
+            return null;
         }
 
-        this.saveState(state);
-        return true;
+        // Never end before the habit started
+        return this.updateHabit(id, {
+            endDate: endDate < existing.startDate ? existing.startDate : endDate,
+            archivedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Restore an archived habit, removing its end date.
+     * Days while it was archived count again like any other day.
+     * 
+     * @param id - Habit ID
+     * @returns The restored habit or null if not found
+     */
+    static unarchiveHabit(id: string): Habit | null {
+        const state = this.state;
+        const existing = state.habits.find(h => h.id === id);
+
+        if (!existing) {
+            return null;
+        }
+
+        const restored: Habit = { ...existing, updatedAt: new Date().toISOString() };
+        delete restored.endDate;
+        delete restored.archivedAt;
+
+        state.habits = state.habits.map(h => (h.id === id ? restored : h));
+        void HabitDatabaseService.putHabit(restored);
+
+        return restored;
+    }
+
+    /**
+     * Put back a previous version of a habit (used by undo/redo).
+     * Replaces the habit if it exists, otherwise re-inserts it with its logs.
+     * 
+     * @param previous - Habit to restore
+     * @param previousLogs - Logs deleted together with the habit
+     * @param index - Position in the habit list (default: end)
+     */
+    static restoreHabit(previous: Habit, previousLogs: HabitLog[] = [], index?: number): void {
+        const state = this.state;
+        // Restoring is a new change: stamp it so it wins over the version it replaces
+        const updatedAt = new Date().toISOString();
+        const habit: Habit = { ...previous, updatedAt };
+        const logs = previousLogs.map(log => ({ ...log, updatedAt }));
+
+        if (state.habits.some(h => h.id === habit.id)) {
+            state.habits = state.habits.map(h => (h.id === habit.id ? habit : h));
+        } else {
+            const habits = [...state.habits];
+            habits.splice(index ?? habits.length, 0, habit);
+            state.habits = habits;
+        }
+
+        void HabitDatabaseService.putHabit(habit);
+
+        if (logs.length > 0) {
+            LogStoreService.putMany(logs);
+            void HabitDatabaseService.putLogs(logs);
+        }
     }
 
     /**
      * Get app settings
      */
     static getSettings(): HabitSettings {
-        return this.getState().settings;
+        return this.state.settings;
     }
 
     /**
      * Update app settings
      */
     static updateSettings(updates: Partial<HabitSettings>): HabitSettings {
-        const state = this.getState();
+        const state = this.state;
         state.settings = { ...state.settings, ...updates };
-        this.saveState(state);
+        void HabitDatabaseService.putSettings(state.settings);
         return state.settings;
     }
 }
@@ -0,0 +1,407 @@
+import { StorageService } from './storage.service';
+import { TabSyncService } from './tabSync.service';
+import type { UnversionedAppState } from './migration.service';
+import type { Habit, HabitLog, HabitPause, DayNote, HabitAppState, HabitSettings } from '../types';
+
+/**
+ * IndexedDB database name
+ */
+const DB_NAME = 'habit-tracker';
+
+/**
+ * Object store names
+ */
+const STORES = {
+    HABITS: 'habits',
+    LOGS: 'logs',
+    PAUSES: 'pauses',
+    NOTES: 'notes',
+    SETTINGS: 'settings',
+} as const;
+
+/**
+ * Keys used in the settings store
+ */
+const SETTINGS_KEYS = {
+    APP: 'app',
+    SCHEMA_VERSION: 'schemaVersion',
+} as const;
+
+/**
+ * localStorage key used before the move to IndexedDB
+ */
+const LEGACY_STORAGE_KEY = 'habit-tracker-state';
+
+/**
+ * A single schema upgrade step, run inside the versionchange transaction
+ */
+type UpgradeStep = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/**
+ * Ordered schema upgrades.
+ * The step at index N upgrades the database from version N to N + 1,
+ * so the database version is always the length of this list.
+ */
+const UPGRADES: UpgradeStep[] = [
+    // v1: separate stores for habits, logs and settings + import of the legacy localStorage blob
+    (db, transaction) => {
+        db.createObjectStore(STORES.HABITS, { keyPath: 'id' });
+
+        const logStore = db.createObjectStore(STORES.LOGS, { keyPath: ['habitId', 'date'] });
+        logStore.createIndex('habitId', 'habitId');
+        logStore.createIndex('date', 'date');
+
+        db.createObjectStore(STORES.SETTINGS);
+
+        importLegacyState(transaction);
+    },
+    // v2: pause periods (vacation mode)
+    (db) => {
+        db.createObjectStore(STORES.PAUSES, { keyPath: 'id' });
+    },
+    // v3: per-day notes and mood journal
+    (db) => {
+        db.createObjectStore(STORES.NOTES, { keyPath: 'date' });
+    },
+];
+
+const DB_VERSION = UPGRADES.length;
+
+/**
+ * Copy the legacy localStorage state into the freshly created stores.
+ * The legacy blob is left in place so nothing is lost if the import is interrupted.
+ */
+function importLegacyState(transaction: IDBTransaction): void {
+    // Not available inside the service worker
+    if (typeof localStorage === 'undefined') {
+        return;
+    }
+
+    const legacy = StorageService.get<UnversionedAppState>(LEGACY_STORAGE_KEY);
+
+    if (!legacy) {
+        return;
+    }
+
+    const habitStore = transaction.objectStore(STORES.HABITS);
+    const logStore = transaction.objectStore(STORES.LOGS);
+
+    for (const habit of legacy.habits ?? []) {
+        habitStore.put(habit);
+    }
+
+    for (const log of legacy.logs ?? []) {
+        logStore.put(log);
+    }
+
+    if (legacy.settings) {
+        transaction.objectStore(STORES.SETTINGS).put(legacy.settings, SETTINGS_KEYS.APP);
+    }
+
+    // The blob may predate schema versioning: MigrationService upgrades it on load
+    if (legacy.schemaVersion !== undefined) {
+        transaction.objectStore(STORES.SETTINGS).put(legacy.schemaVersion, SETTINGS_KEYS.SCHEMA_VERSION);
+    }
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Put a record unless the stored one was changed more recently (last writer wins).
+ * Protects a newer change made in another tab from a write based on stale memory.
+ */
+function putUnlessNewer<T extends { updatedAt?: string }>(
+    store: IDBObjectStore,
+    key: IDBValidKey,
+    record: T
+): void {
+    const request = store.get(key);
+    request.onsuccess = () => {
+        const stored = request.result as T | undefined;
+        if (!stored || (stored.updatedAt ?? '') <= (record.updatedAt ?? '')) {
+            store.put(record);
+        }
+    };
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Habit Database Service
+ *
+ * Persists habits, logs, pauses, notes and settings in IndexedDB, one object store each.
+ * Logs are keyed by [habitId, date] and indexed by both fields, so a single
+ * toggle only rewrites one record instead of the whole app state.
+ *
+ * Has no DOM dependencies besides the one-time legacy import,
+ * so it can also be used from the service worker.
+ *
+ * Record writes never reject: errors are logged, like StorageService does.
+ * `replaceState` and `putSyncedChanges` reject instead, so a failed migration, backup
+ * import or sync round is not reported as saved.
+ * Every committed write is announced to the other tabs (see TabSyncService), and
+ * logs and notes are only overwritten by changes at least as recent as the stored ones.
+ */
+export class HabitDatabaseService {
+    private static dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Open (and upgrade if needed) the database.
+     * The connection is shared by all callers.
+     */
+    static open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+                request.onupgradeneeded = (event) => {
+                    const transaction = request.transaction!;
+                    for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                        UPGRADES[version](request.result, transaction);
+                    }
+                };
+
+                request.onsuccess = () => {
+                    const db = request.result;
+                    // Let newer versions opened in another tab take over
+                    db.onversionchange = () => {
+                        db.close();
+                        this.dbPromise = null;
+                    };
+                    resolve(db);
+                };
+
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+
+        return this.dbPromise;
+    }
+
+    /**
+     * Read the complete app state, as stored (not migrated)
+     */
+    static async loadState(): Promise<UnversionedAppState> {
+        const db = await this.open();
+        const transaction = db.transaction(Object.values(STORES), 'readonly');
+        const settingsStore = transaction.objectStore(STORES.SETTINGS);
+
+        const [habits, logs, pauses, notes, settings, schemaVersion] = await Promise.all([
+            requestToPromise<Habit[]>(transaction.objectStore(STORES.HABITS).getAll()),
+            requestToPromise<HabitLog[]>(transaction.objectStore(STORES.LOGS).getAll()),
+            requestToPromise<HabitPause[]>(transaction.objectStore(STORES.PAUSES).getAll()),
+            requestToPromise<DayNote[]>(transaction.objectStore(STORES.NOTES).getAll()),
+            requestToPromise<HabitSettings | undefined>(settingsStore.get(SETTINGS_KEYS.APP)),
+            requestToPromise<number | undefined>(settingsStore.get(SETTINGS_KEYS.SCHEMA_VERSION)),
+        ]);
+
+        return {
+            schemaVersion,
+            habits,
+            logs,
+            pauses,
+            notes,
+            settings: settings ?? { currentYear: new Date().getFullYear() },
+        };
+    }
+
+    /**
+     * Insert or replace a habit
+     */
+    static putHabit(habit: Habit): Promise<void> {
+        return this.write([STORES.HABITS], transaction => {
+            transaction.objectStore(STORES.HABITS).put(habit);
+        });
+    }
+
+    /**
+     * Delete a habit together with all of its logs
+     */
+    static deleteHabit(id: string): Promise<void> {
+        return this.write([STORES.HABITS, STORES.LOGS], transaction => {
+            transaction.objectStore(STORES.HABITS).delete(id);
+
+            const cursorRequest = transaction.objectStore(STORES.LOGS).index('habitId').openCursor(id);
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    cursor.delete();
+                    cursor.continue();
+                }
+            };
+        });
+    }
+
+    /**
+     * Insert or replace a single log
+     */
+    static putLog(log: HabitLog): Promise<void> {
+        return this.putLogs([log]);
+    }
+
+    /**
+     * Insert or replace several logs in one transaction
+     */
+    static putLogs(logs: HabitLog[]): Promise<void> {
+        return this.write([STORES.LOGS], transaction => {
+            const store = transaction.objectStore(STORES.LOGS);
+            for (const log of logs) {
+                putUnlessNewer(store, [log.habitId, log.date], log);
+            }
+        });
+    }
+
+    /**
+     * Store habits and logs pulled from the sync server in one transaction,
+     * keeping any stored record changed more recently
+     *
+     * @throws The IndexedDB error if the records can't be stored
+     */
+    static putSyncedChanges(habits: Habit[], logs: HabitLog[]): Promise<void> {
+        if (habits.length === 0 && logs.length === 0) {
+            return Promise.resolve();
+        }
+
+        return this.transact([STORES.HABITS, STORES.LOGS], transaction => {
+            const habitStore = transaction.objectStore(STORES.HABITS);
+            const logStore = transaction.objectStore(STORES.LOGS);
+
+            for (const habit of habits) {
+                putUnlessNewer(habitStore, habit.id, habit);
+            }
+            for (const log of logs) {
+                putUnlessNewer(logStore, [log.habitId, log.date], log);
+            }
+        });
+    }
+
+    /**
+     * Insert or replace a pause
+     */
+    static putPause(pause: HabitPause): Promise<void> {
+        return this.write([STORES.PAUSES], transaction => {
+            transaction.objectStore(STORES.PAUSES).put(pause);
+        });
+    }
+
+    /**
+     * Delete a pause
+     */
+    static deletePause(id: string): Promise<void> {
+        return this.write([STORES.PAUSES], transaction => {
+            transaction.objectStore(STORES.PAUSES).delete(id);
+        });
+    }
+
+    /**
+     * Insert or replace the note of a day
+     */
+    static putNote(note: DayNote): Promise<void> {
+        return this.write([STORES.NOTES], transaction => {
+            putUnlessNewer(transaction.objectStore(STORES.NOTES), note.date, note);
+        });
+    }
+
+    /**
+     * Delete the note of a day
+     */
+    static deleteNote(date: string): Promise<void> {
+        return this.write([STORES.NOTES], transaction => {
+            transaction.objectStore(STORES.NOTES).delete(date);
+        });
+    }
+
+    /**
+     * Replace the stored settings
+     */
+    static putSettings(settings: HabitSettings): Promise<void> {
+        return this.write([STORES.SETTINGS], transaction => {
+            transaction.objectStore(STORES.SETTINGS).put(settings, SETTINGS_KEYS.APP);
+        });
+    }
+
+    /**
+     * Replace everything in the database with the given state
+     */
+    static replaceState(state: HabitAppState): Promise<void> {
+        return this.transact(Object.values(STORES), transaction => {
+            const habitStore = transaction.objectStore(STORES.HABITS);
+            const logStore = transaction.objectStore(STORES.LOGS);
+            const pauseStore = transaction.objectStore(STORES.PAUSES);
+            const noteStore = transaction.objectStore(STORES.NOTES);
+            const settingsStore = transaction.objectStore(STORES.SETTINGS);
+
+            habitStore.clear();
+            logStore.clear();
+            pauseStore.clear();
+            noteStore.clear();
+
+            for (const habit of state.habits) {
+                habitStore.put(habit);
+            }
+            for (const log of state.logs) {
+                logStore.put(log);
+            }
+            for (const pause of state.pauses) {
+                pauseStore.put(pause);
+            }
+            for (const note of state.notes) {
+                noteStore.put(note);
+            }
+            settingsStore.put(state.settings, SETTINGS_KEYS.APP);
+            settingsStore.put(state.schemaVersion, SETTINGS_KEYS.SCHEMA_VERSION);
+        });
+    }
+
+    /**
+     * Run a readwrite transaction, logging errors instead of rejecting
+     */
+    private static async write(
+        storeNames: string[],
+        operation: (transaction: IDBTransaction) => void
+    ): Promise<void> {
+        try {
+            await this.transact(storeNames, operation);
+        } catch (error) {
+            console.error('Error writing to IndexedDB:', error);
+        }
+    }
+
+    /**
+     * Run a readwrite transaction and wait for it to commit
+     *
+     * @throws The IndexedDB error if the database can't be opened or the transaction fails
+     */
+    private static async transact(
+        storeNames: string[],
+        operation: (transaction: IDBTransaction) => void
+    ): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(storeNames, 'readwrite');
+        operation(transaction);
+        await transactionDone(transaction);
+        TabSyncService.notify(storeNames);
+    }
+}
+
+export default HabitDatabaseService;
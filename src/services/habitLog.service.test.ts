@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitLogService } from './habitLog.service';
+import { HabitService } from './habit.service';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import type { Habit } from '../types';
+
+const habit: Habit = {
+    id: 'habit-1',
+    name: 'Agua',
+    color: '#2196f3',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-01',
+    target: { value: 8, unit: 'vasos', comparison: 'atLeast' },
+};
+
+beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(HabitDatabaseService, 'replaceState').mockResolvedValue();
+    vi.spyOn(HabitDatabaseService, 'putLogs').mockResolvedValue();
+
+    await HabitService.replaceState({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        habits: [habit],
+        logs: [],
+        pauses: [],
+        notes: [],
+        settings: { currentYear: 2026 },
+    });
+});
+
+describe('HabitLogService.clearLog', () => {
+    it('leaves a stamped unchecked log, so the removal is synced like any other change', () => {
+        HabitLogService.setValue(habit.id, '2026-03-01', 5);
+        HabitLogService.clearLog(habit.id, '2026-03-01');
+
+        const log = HabitLogService.getLog(habit.id, '2026-03-01');
+        expect(log).toMatchObject({ habitId: habit.id, date: '2026-03-01', completed: false });
+        expect(log?.value).toBeUndefined();
+        expect(log?.updatedAt).toEqual(expect.any(String));
+        expect(HabitDatabaseService.putLogs).toHaveBeenLastCalledWith([log]);
+    });
+
+    it('is what undoing the first log of a day does', () => {
+        const before = HabitLogService.getLog(habit.id, '2026-03-02');
+        HabitLogService.toggleCompletion(habit.id, '2026-03-02');
+        HabitLogService.restoreLog(habit.id, '2026-03-02', before);
+
+        expect(HabitLogService.isCompleted(habit.id, '2026-03-02')).toBe(false);
+        expect(HabitLogService.getValue(habit.id, '2026-03-02')).toBeUndefined();
+        expect(HabitLogService.getLog(habit.id, '2026-03-02')?.updatedAt).toEqual(expect.any(String));
+    });
+});
@@ -1,55 +1,67 @@
-import { StorageService } from './storage.service';
-import type { HabitLog, HabitAppState, DayStatus, Habit } from '../types';
+import { getDatesBetween } from '../utils';
+import { HabitService } from './habit.service';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { LogStoreService } from './logStore.service';
+import { ScheduleService } from './schedule.service';
+import { PauseService } from './pause.service';
+import type { HabitLog, DayStatus, DateRange, Habit, HabitTarget } from '../types';
 
 /**
- * Storage key
+ * Lookups shared by the status calculation of every day
  */
-const STORAGE_KEY = 'habit-tracker-state';
+interface DayStatusContext {
+    /** Habits counted (the filtered ones when a filter is active) */
+    activeHabits: Habit[];
+    isFilterActive: boolean;
+    isDone: (habitId: string, date: string) => boolean;
+    isPaused: (habitId: string, date: string) => boolean;
+    /** Whether every habit planned on a date is paused */
+    isDayPaused: (date: string) => boolean;
+}
 
 /**
  * Habit Log Service
  * 
  * Handles all operations for habit completion logs.
  * Manages tracking of daily habit completions.
+ * Reads and writes go through the indexed LogStoreService.
  * 
  * Follows Single Responsibility Principle - only handles habit log operations.
  */
 export class HabitLogService {
     /**
-     * Get the current app state from storage
+     * Get all logs
      */
-    private static getState(): HabitAppState {
-        const stored = StorageService.get<HabitAppState>(STORAGE_KEY);
-        return stored || { habits: [], logs: [], settings: { currentYear: new Date().getFullYear() } };
+    static getLogs(): HabitLog[] {
+        return LogStoreService.getAll();
     }
 
     /**
-     * Save the app state to storage
+     * Get logs for a specific habit
      */
-    private static saveState(state: HabitAppState): void {
-        StorageService.set(STORAGE_KEY, state);
+    static getLogsForHabit(habitId: string): HabitLog[] {
+        return LogStoreService.getForHabit(habitId);
     }
 
     /**
-     * Get all logs
+     * Get all logs for a specific year
      */
-    static getLogs(): HabitLog[] {
-        return this.getState().logs;
+    static getLogsForYear(year: number): HabitLog[] {
+        return LogStoreService.getForYear(year);
     }
 
     /**
-     * Get logs for a specific habit
+     * Get all logs between two dates (inclusive)
      */
-    static getLogsForHabit(habitId: string): HabitLog[] {
-        return this.getLogs().filter(log => log.habitId === habitId);
+    static getLogsForRange(range: DateRange): HabitLog[] {
+        return LogStoreService.getForRange(range.start, range.end);
     }
 
     /**
-     * Get all logs for a specific year
+     * Years that have logs, in ascending order
      */
-    static getLogsForYear(year: number): HabitLog[] {
-        const yearPrefix = `${year}-`;
-        return this.getLogs().filter(log => log.date.startsWith(yearPrefix));
+    static getYearsWithLogs(): number[] {
+        return LogStoreService.getYears();
     }
 
     /**
@@ -57,17 +69,113 @@ export class HabitLogService {
      */
     static getLogsForMonth(year: number, month: number): HabitLog[] {
         const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
-        return this.getLogs().filter(log => log.date.startsWith(monthPrefix));
+        return this.getLogsForYear(year).filter(log => log.date.startsWith(monthPrefix));
+    }
+
+    /**
+     * Get the log of a habit on a specific date
+     */
+    static getLog(habitId: string, date: string): HabitLog | undefined {
+        return LogStoreService.get(habitId, date);
+    }
+
+    /**
+     * Check whether a value meets a numeric target
+     */
+    static meetsTarget(target: HabitTarget, value: number): boolean {
+        return target.comparison === 'atLeast'
+            ? value >= target.value
+            : value <= target.value;
+    }
+
+    /**
+     * Check whether a log counts as done for its habit.
+     * Numeric habits are judged on the logged value against the current target,
+     * so changing a target re-evaluates past logs.
+     */
+    static isLogDone(habit: Habit, log: HabitLog | undefined): boolean {
+        if (!log) return false;
+
+        if (habit.target && log.value !== undefined) {
+            return this.meetsTarget(habit.target, log.value);
+        }
+
+        return log.completed;
+    }
+
+    /**
+     * Progress of a log from 0 to 1.
+     * "At least" targets give partial credit; everything else is all or nothing.
+     */
+    static getLogProgress(habit: Habit, log: HabitLog | undefined): number {
+        if (this.isLogDone(habit, log)) return 1;
+
+        if (habit.target?.comparison === 'atLeast' && log?.value !== undefined && habit.target.value > 0) {
+            return Math.min(Math.max(log.value / habit.target.value, 0), 1);
+        }
+
+        return 0;
+    }
+
+    /**
+     * Build a fast lookup of completed habit/date pairs.
+     * Logs of habits not in the list never count as done.
+     * 
+     * @returns Whether a habit was done on a given date
+     */
+    static createDoneLookup(habits: Habit[], logs: HabitLog[]): (habitId: string, date: string) => boolean {
+        const habitsById = new Map(habits.map(h => [h.id, h]));
+        const doneKeys = new Set(
+            logs
+                .filter(log => {
+                    const habit = habitsById.get(log.habitId);
+                    return habit !== undefined && this.isLogDone(habit, log);
+                })
+                .map(log => `${log.habitId}|${log.date}`)
+        );
+
+        return (habitId, date) => doneKeys.has(`${habitId}|${date}`);
+    }
+
+    /**
+     * Build a fast lookup of skipped habit/date pairs
+     * 
+     * @returns Whether a habit was skipped on a given date
+     */
+    static createSkipLookup(logs: HabitLog[]): (habitId: string, date: string) => boolean {
+        const skippedKeys = new Set(
+            logs
+                .filter(log => log.skipped)
+                .map(log => `${log.habitId}|${log.date}`)
+        );
+
+        return (habitId, date) => skippedKeys.has(`${habitId}|${date}`);
     }
 
     /**
      * Check if a habit was completed on a specific date
      */
     static isCompleted(habitId: string, date: string): boolean {
-        const log = this.getLogs().find(
-            l => l.habitId === habitId && l.date === date
-        );
-        return log?.completed ?? false;
+        const log = this.getLog(habitId, date);
+        const habit = HabitService.getHabitById(habitId);
+
+        return habit ? this.isLogDone(habit, log) : log?.completed ?? false;
+    }
+
+    /**
+     * Check if a habit was skipped (excused) on a specific date
+     */
+    static isSkipped(habitId: string, date: string): boolean {
+        return this.getLog(habitId, date)?.skipped ?? false;
+    }
+
+    /**
+     * Get the logged value of a numeric habit on a specific date
+     * 
+     * @returns The value, or undefined if no value was logged that day
+     */
+    static getValue(habitId: string, date: string): number | undefined {
+        return this.getLog(habitId, date)?.value;
     }
 
     /**
@@ -78,28 +186,8 @@ export class HabitLogService {
      * @returns The new completion status
      */
     static toggleCompletion(habitId: string, date: string): boolean {
-        const state = this.getState();
-        const existingIndex = state.logs.findIndex(
-            log => log.habitId === habitId && log.date === date
-        );
-
-        let newStatus: boolean;
-
-        if (existingIndex === -1) {
-            // Create new log entry
-            state.logs.push({
-                habitId,
-                date,
-                completed: true,
-            });
-            newStatus = true;
-        } else {
-            // Toggle existing entry
-            state.logs[existingIndex].completed = !state.logs[existingIndex].completed;
-            newStatus = state.logs[existingIndex].completed;
-        }
-
-        this.saveState(state);
+        const newStatus = !this.isCompleted(habitId, date);
+        this.setCompletion(habitId, date, newStatus);
         return newStatus;
     }
 
@@ -111,126 +199,277 @@ export class HabitLogService {
      * @param completed - Completion status
      */
     static setCompletion(habitId: string, date: string, completed: boolean): void {
-        const state = this.getState();
-        const existingIndex = state.logs.findIndex(
-            log => log.habitId === habitId && log.date === date
+        const target = HabitService.getHabitById(habitId)?.target;
+
+        // Checking a numeric habit logs exactly its target
+        this.writeLog(completed && target
+            ? { habitId, date, completed, value: target.value }
+            : { habitId, date, completed }
+        );
+    }
+
+    /**
+     * Mark a habit as skipped (excused) for a specific date, or clear the skip.
+     * Skipping replaces any completion or logged value of that day.
+     * 
+     * @param habitId - ID of the habit
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param skipped - Whether the day is skipped
+     * @param reason - Optional reason for skipping
+     */
+    static setSkipped(habitId: string, date: string, skipped: boolean, reason?: string): void {
+        const trimmed = reason?.trim();
+
+        this.writeLog(skipped
+            ? { habitId, date, completed: false, skipped, ...(trimmed && { skipReason: trimmed }) }
+            : { habitId, date, completed: false }
         );
+    }
 
-        if (existingIndex === -1) {
-            state.logs.push({ habitId, date, completed });
-        } else {
-            state.logs[existingIndex].completed = completed;
+    /**
+     * Set the logged value of a numeric habit for a specific date
+     * 
+     * @param habitId - ID of the habit
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param value - Logged amount
+     */
+    static setValue(habitId: string, date: string, value: number): void {
+        const target = HabitService.getHabitById(habitId)?.target;
+        const completed = target ? this.meetsTarget(target, value) : value > 0;
+
+        this.writeLog({ habitId, date, completed, value });
+    }
+
+    /**
+     * Insert or replace a log in memory and persist it, stamped with the time of the change
+     */
+    private static writeLog(change: HabitLog): void {
+        const log: HabitLog = { ...change, updatedAt: new Date().toISOString() };
+
+        LogStoreService.put(log);
+        void HabitDatabaseService.putLog(log);
+    }
+
+    /**
+     * Put back a previously read log (used by undo/redo).
+     * Passing undefined clears the log, restoring a day that was never logged (see clearLog).
+     * 
+     * @param habitId - ID of the habit
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param log - Log to restore, or undefined to remove it
+     */
+    static restoreLog(habitId: string, date: string, log: HabitLog | undefined): void {
+        if (log) {
+            this.writeLog(log);
+            return;
+        }
+
+        this.clearLog(habitId, date);
+    }
+
+    /**
+     * Clear the log of a habit on a date, as if the day was never logged.
+     * Leaves a stamped unchecked log instead of deleting it: a deletion would lose
+     * against the older copies of the log on the sync server and other devices.
+     * 
+     * @param habitId - ID of the habit
+     * @param date - Date string in "YYYY-MM-DD" format
+     */
+    static clearLog(habitId: string, date: string): void {
+        this.writeLog({ habitId, date, completed: false });
+    }
+
+    /**
+     * Write many logs at once (used by imports)
+     * Existing logs for the same habit and date are replaced.
+     * 
+     * @param logs - Logs to write
+     * @returns Promise resolved once the logs are persisted
+     */
+    static setCompletions(logs: HabitLog[]): Promise<void> {
+        const updatedAt = new Date().toISOString();
+        const stamped = logs.map(log => ({ ...log, updatedAt }));
+
+        LogStoreService.putMany(stamped);
+        return HabitDatabaseService.putLogs(stamped);
+    }
+
+    /**
+     * Dates whose status depends on the log of a habit on a date:
+     * the date itself, or the whole period of a quota schedule
+     */
+    static getAffectedDates(habitId: string, date: string): string[] {
+        const schedule = HabitService.getHabitById(habitId)?.schedule;
+
+        if (!ScheduleService.isQuota(schedule)) {
+            return [date];
         }
 
-        this.saveState(state);
+        const { start, end } = ScheduleService.getPeriod(schedule, date);
+        return getDatesBetween(start, end);
     }
 
     /**
      * Get aggregated day status for calendar display
-     * Returns completion data for all days in a year
+     * Returns completion data for all days in a date range (a year, the last 365 days...)
      * 
-     * @param year - Year to get data for
+     * @param range - Dates to get data for
      * @param habits - List of habits to check against
      * @param habitFilter - Optional list of habit IDs to filter by
      * @returns Map of date strings to DayStatus
      */
-    static getDayStatusMap(year: number, habits: Habit[], habitFilter?: string[]): Map<string, DayStatus> {
-        const logs = this.getLogsForYear(year);
+    static getDayStatusMap(range: DateRange, habits: Habit[], habitFilter?: string[]): Map<string, DayStatus> {
+        const logs = this.getLogsForRange(range);
         const statusMap = new Map<string, DayStatus>();
-
-        // Filter habits if filter is active
-        const activeHabits = habitFilter && habitFilter.length > 0
-            ? habits.filter(h => habitFilter.includes(h.id))
-            : habits;
+        const context = this.createDayStatusContext(habits, habitFilter);
 
         // Also filter logs if filter is active to prevent processing irrelevant logs
-        const activeLogs = habitFilter && habitFilter.length > 0
-            ? logs.filter(log => habitFilter.includes(log.habitId))
+        const activeLogs = context.isFilterActive
+            ? logs.filter(log => habitFilter!.includes(log.habitId))
             : logs;
 
-        // Group logs by date
-        const logsByDate = new Map<string, HabitLog[]>();
-        for (const log of activeLogs) {
-            if (!logsByDate.has(log.date)) {
-                logsByDate.set(log.date, []);
+        // Days with logs
+        const dates = new Set(activeLogs.map(log => log.date));
+
+        // Fully paused days get an entry even without logs, so they render as paused
+        for (const pause of PauseService.getPauses()) {
+            const start = pause.start > range.start ? pause.start : range.start;
+            const end = pause.end < range.end ? pause.end : range.end;
+
+            for (const date of getDatesBetween(start, end)) {
+                if (!dates.has(date) && context.isDayPaused(date)) {
+                    dates.add(date);
+                }
             }
-            logsByDate.get(log.date)!.push(log);
         }
 
         // Calculate status for each date that has logs
-        for (const [date, dateLogs] of logsByDate) {
-            // Filter habits to only include those that had started by this date
-            const habitsActiveOnDate = activeHabits.filter(h => {
-                // If habit has a startDate, only count it if the date >= startDate
-                if (h.startDate) {
-                    return date >= h.startDate;
-                }
-                // Legacy habits without startDate: use createdAt date
-                const createdDate = h.createdAt.split('T')[0];
-                return date >= createdDate;
-            });
-
-            const mandatoryHabits = habitsActiveOnDate.filter(h => h.mandatory);
-            const optionalHabits = habitsActiveOnDate.filter(h => !h.mandatory);
-
-            let mandatoryCompleted = 0;
-            let optionalCompleted = 0;
-            const completedColors: string[] = [];
-
-            for (const log of dateLogs) {
-                if (log.completed) {
-                    const habit = habitsActiveOnDate.find(h => h.id === log.habitId);
-                    if (habit) {
-                        completedColors.push(habit.color);
-                        if (habit.mandatory) {
-                            mandatoryCompleted++;
-                        } else {
-                            optionalCompleted++;
-                        }
-                    }
-                }
-            }
+        for (const date of dates) {
+            statusMap.set(date, this.buildDayStatus(date, context));
+        }
+
+        return statusMap;
+    }
+
+    /**
+     * Recompute only some days of a day status map, after their logs changed.
+     * Untouched days keep their DayStatus objects, so memoised cells don't re-render.
+     * 
+     * @param statusMap - Current map (left unchanged)
+     * @param range - Dates covered by the map; other dates are ignored
+     * @param habits - List of habits to check against
+     * @param dates - Changed dates (see getAffectedDates)
+     * @param habitFilter - Optional list of habit IDs to filter by
+     * @returns A new map with the changed days updated
+     */
+    static updateDayStatusMap(
+        statusMap: Map<string, DayStatus>,
+        range: DateRange,
+        habits: Habit[],
+        dates: string[],
+        habitFilter?: string[]
+    ): Map<string, DayStatus> {
+        const updated = new Map(statusMap);
+        const context = this.createDayStatusContext(habits, habitFilter);
+
+        for (const date of dates) {
+            if (date < range.start || date > range.end) continue;
+
+            const hasLogs = context.activeHabits.some(h => this.getLog(h.id, date) !== undefined);
 
-            // Check if we're in filtered mode
-            const isFilterActive = habitFilter && habitFilter.length > 0;
-
-            // Only add to map if there are relevant completions or we want to show empty mandatory slots
-            // When filtering, we only care about the filtered habits
-            if (completedColors.length > 0 || isFilterActive) {
-                statusMap.set(date, {
-                    date,
-                    mandatoryCompleted,
-                    mandatoryTotal: mandatoryHabits.length,
-                    optionalCompleted,
-                    optionalTotal: optionalHabits.length,
-                    completedColors,
-                    isFiltered: isFilterActive,
-                });
-            } else if (!isFilterActive) {
-                // Without filter, we maintain original behavior
-                statusMap.set(date, {
-                    date,
-                    mandatoryCompleted,
-                    mandatoryTotal: mandatoryHabits.length,
-                    optionalCompleted,
-                    optionalTotal: optionalHabits.length,
-                    completedColors,
-                    isFiltered: false,
-                });
+            // Same entries as a full rebuild: days with logs and fully paused days
+            if (hasLogs || context.isDayPaused(date)) {
+                updated.set(date, this.buildDayStatus(date, context));
+            } else {
+                updated.delete(date);
             }
         }
 
-        return statusMap;
+        return updated;
     }
 
     /**
-     * Format a Date object to "YYYY-MM-DD" string
+     * Lookups shared by the status calculation of every day
      */
-    static formatDate(date: Date): string {
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        return `${year}-${month}-${day}`;
+    private static createDayStatusContext(habits: Habit[], habitFilter?: string[]): DayStatusContext {
+        const isFilterActive = habitFilter !== undefined && habitFilter.length > 0;
+
+        // Filter habits if filter is active
+        const activeHabits = isFilterActive
+            ? habits.filter(h => habitFilter.includes(h.id))
+            : habits;
+
+        // Completed habit/date pairs, used to judge quota schedules over their whole period
+        const habitsById = new Map(activeHabits.map(h => [h.id, h]));
+        const isDone = (habitId: string, date: string): boolean => {
+            const habit = habitsById.get(habitId);
+            return habit !== undefined && this.isLogDone(habit, this.getLog(habitId, date));
+        };
+        const isPaused = PauseService.createPauseLookup();
+
+        // A day is shown as paused when every habit planned on it is paused
+        const isDayPaused = (date: string): boolean => {
+            const planned = activeHabits.filter(h => ScheduleService.isScheduledOn(h, date));
+            return planned.length > 0 && planned.every(h => isPaused(h.id, date));
+        };
+
+        return { activeHabits, isFilterActive, isDone, isPaused, isDayPaused };
+    }
+
+    /**
+     * Calculate the status of a single day.
+     * Completed colors follow the habit order, however the logs were written.
+     */
+    private static buildDayStatus(date: string, context: DayStatusContext): DayStatus {
+        const { activeHabits, isFilterActive, isDone, isPaused } = context;
+
+        // Only count habits that had started by this date, are due according to their schedule
+        // and are neither paused nor skipped
+        const habitsActiveOnDate = activeHabits.filter(h =>
+            !isPaused(h.id, date) &&
+            !this.isSkipped(h.id, date) &&
+            ScheduleService.isDue(h, date, d => isDone(h.id, d))
+        );
+
+        const mandatoryHabits = habitsActiveOnDate.filter(h => h.mandatory);
+        const optionalHabits = habitsActiveOnDate.filter(h => !h.mandatory);
+
+        let mandatoryCompleted = 0;
+        let optionalCompleted = 0;
+        let progressSum = 0;
+        const completedColors: string[] = [];
+
+        for (const habit of habitsActiveOnDate) {
+            const log = this.getLog(habit.id, date);
+            if (!log) continue;
+
+            progressSum += this.getLogProgress(habit, log);
+
+            if (this.isLogDone(habit, log)) {
+                completedColors.push(habit.color);
+                if (habit.mandatory) {
+                    mandatoryCompleted++;
+                } else {
+                    optionalCompleted++;
+                }
+            }
+        }
+
+        const progress = habitsActiveOnDate.length > 0
+            ? progressSum / habitsActiveOnDate.length
+            : 0;
+
+        return {
+            date,
+            mandatoryCompleted,
+            mandatoryTotal: mandatoryHabits.length,
+            optionalCompleted,
+            optionalTotal: optionalHabits.length,
+            completedColors,
+            progress,
+            isFiltered: isFilterActive,
+            isPaused: context.isDayPaused(date),
+        };
     }
 }
 
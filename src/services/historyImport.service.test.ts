@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitLogService } from './habitLog.service';
+import { HabitService } from './habit.service';
+import { HistoryImportService } from './historyImport.service';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import type { Habit } from '../types';
+
+const water: Habit = {
+    id: 'habit-1',
+    name: 'Agua',
+    color: '#2196f3',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-03-01',
+    target: { value: 8, unit: 'vasos', comparison: 'atLeast' },
+};
+
+/**
+ * Loop Checkmarks.csv with a yes/no habit and a numeric one (amounts × 1000)
+ */
+const LOOP_CSV = [
+    'Date,Correr,Agua',
+    '2026-03-03,2,9000',
+    '2026-03-02,3,5000',
+    '2026-03-01,0,0',
+    '2026-02-28,0,0',
+].join('\n');
+
+beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(HabitDatabaseService, 'replaceState').mockResolvedValue();
+    vi.spyOn(HabitDatabaseService, 'putHabit').mockResolvedValue();
+    vi.spyOn(HabitDatabaseService, 'putLogs').mockResolvedValue();
+
+    await HabitService.replaceState({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        habits: [water],
+        logs: [],
+        pauses: [],
+        notes: [],
+        settings: { currentYear: 2026 },
+    });
+});
+
+describe('HistoryImportService with Loop exports', () => {
+    const entries = HistoryImportService.parseLoop(HistoryImportService.readRows(LOOP_CSV));
+
+    it('reads the amounts of numeric habits', () => {
+        expect(entries.filter(e => e.sourceHabit === 'Agua')).toEqual([
+            { date: '2026-03-03', sourceHabit: 'Agua', completed: true, value: 9 },
+            { date: '2026-03-02', sourceHabit: 'Agua', completed: true, value: 5 },
+            { date: '2026-03-01', sourceHabit: 'Agua', completed: false },
+            { date: '2026-02-28', sourceHabit: 'Agua', completed: false },
+        ]);
+    });
+
+    it('starts each habit on its first completed day', () => {
+        expect(HistoryImportService.getSourceHabits(entries)).toEqual([
+            { name: 'Correr', entries: 3, firstDate: '2026-03-03' },
+            { name: 'Agua', entries: 4, firstDate: '2026-03-02' },
+        ]);
+    });
+
+    it('writes the amounts against the target and leaves the start date on unchecked days', async () => {
+        const result = await HistoryImportService.importEntries(entries, {
+            Correr: { type: 'new' },
+            Agua: { type: 'existing', habitId: water.id },
+        });
+
+        expect(result).toEqual({ habitsCreated: 1, logsWritten: 7, logsKept: 0 });
+        expect(HabitService.getHabitById(water.id)?.startDate).toBe('2026-03-01');
+        expect(HabitLogService.getValue(water.id, '2026-03-03')).toBe(9);
+        expect(HabitLogService.getLog(water.id, '2026-03-02')).toMatchObject({ completed: false, value: 5 });
+
+        const running = HabitService.getHabits().find(h => h.name === 'Correr');
+        expect(running?.startDate).toBe('2026-03-03');
+    });
+});
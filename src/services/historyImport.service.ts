@@ -0,0 +1,274 @@
+import { isValidDateString, parseCsv, toDateKey } from '../utils';
+import { HabitService } from './habit.service';
+import { HabitLogService } from './habitLog.service';
+import { HABIT_COLORS } from '../types';
+import type {
+    Habit,
+    HabitLog,
+    HistoryEntry,
+    HistorySourceFormat,
+    GenericColumnMapping,
+    SourceHabit,
+    HabitMappingTarget,
+    HistoryImportResult
+} from '../types';
+
+/**
+ * Loop Habit Tracker checkmark values
+ * 2 = checked by the user, 0 = unchecked, -1 = unknown,
+ * 1 = implied by the habit frequency, 3 = skipped.
+ * Numeric habits store the amount multiplied by 1000.
+ */
+const LOOP_CHECKED = 2;
+const LOOP_SKIP = 3;
+
+/**
+ * Values considered "not done" in the generic format
+ */
+const FALSY_VALUES = new Set(['', '0', 'false', 'no', 'n', 'f']);
+
+/**
+ * Normalize a date to "YYYY-MM-DD"
+ * Accepts YYYY-MM-DD, YYYY/MM/DD and DD/MM/YYYY (also with dashes or dots).
+ * 
+ * @returns The normalized date or null if it can't be parsed
+ */
+function normalizeDate(raw: string): string | null {
+    const value = raw.trim();
+    let year: number, month: number, day: number;
+
+    let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (match) {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+        if (!match) return null;
+        [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    }
+
+    const date = toDateKey(year, month - 1, day);
+    return isValidDateString(date) ? date : null;
+}
+
+/**
+ * History Import Service
+ * 
+ * Reads history exported by other habit trackers (Loop Habit Tracker
+ * or a generic "date,habit,value" CSV) and writes it as habit logs.
+ * 
+ * Follows Single Responsibility Principle - only handles history imports.
+ */
+export class HistoryImportService {
+    /**
+     * Read a CSV file into rows
+     */
+    static readRows(text: string): string[][] {
+        const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+        // Spreadsheets in comma-decimal locales export with semicolons
+        const separator = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+        return parseCsv(text, separator);
+    }
+
+    /**
+     * Guess the source format from the header row.
+     * Loop exports start with a "Date" column followed by one column per habit
+     * and only contain numeric checkmark values.
+     */
+    static detectFormat(rows: string[][]): HistorySourceFormat {
+        const [header, ...data] = rows;
+
+        const isLoop = header !== undefined &&
+            header[0]?.trim().toLowerCase() === 'date' &&
+            header.length >= 2 &&
+            data.slice(0, 20).every(row =>
+                normalizeDate(row[0] ?? '') !== null &&
+                row.slice(1).every(cell => cell.trim() === '' || !Number.isNaN(Number(cell)))
+            );
+
+        return isLoop ? 'loop' : 'generic';
+    }
+
+    /**
+     * Guess the generic column mapping from header names
+     */
+    static guessColumns(header: string[]): GenericColumnMapping {
+        const find = (names: string[], fallback: number) => {
+            const index = header.findIndex(h => names.includes(h.trim().toLowerCase()));
+            return index === -1 ? fallback : index;
+        };
+
+        return {
+            date: find(['date', 'fecha', 'day', 'día', 'dia'], 0),
+            habit: find(['habit', 'hábito', 'habito', 'name', 'nombre'], 1),
+            value: find(['value', 'valor', 'completed', 'completado', 'done', 'hecho'], 2),
+        };
+    }
+
+    /**
+     * Parse a Loop Habit Tracker Checkmarks.csv
+     */
+    static parseLoop(rows: string[][]): HistoryEntry[] {
+        const [header, ...data] = rows;
+        const habitNames = header.slice(1).map(name => name.trim());
+        const entries: HistoryEntry[] = [];
+
+        // Only numeric habits have cells above the checkmark values
+        const isNumeric = habitNames.map((_, i) => data.some(row => Number(row[i + 1]) > LOOP_SKIP));
+
+        for (const row of data) {
+            const date = normalizeDate(row[0] ?? '');
+            if (!date) continue;
+
+            habitNames.forEach((sourceHabit, i) => {
+                const cell = row[i + 1]?.trim();
+                if (!sourceHabit || !cell) return;
+
+                const value = Number(cell);
+                if (value === 0) {
+                    entries.push({ date, sourceHabit, completed: false });
+                } else if (isNumeric[i] && value > 0) {
+                    entries.push({ date, sourceHabit, completed: true, value: value / 1000 });
+                } else if (!isNumeric[i] && value === LOOP_CHECKED) {
+                    entries.push({ date, sourceHabit, completed: true });
+                }
+                // Unknown, implied and skipped days are not imported
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Parse a generic "date,habit,value" CSV
+     * 
+     * @param rows - CSV rows
+     * @param columns - Which column holds each field
+     * @param hasHeader - Whether the first row is a header
+     */
+    static parseGeneric(rows: string[][], columns: GenericColumnMapping, hasHeader: boolean): HistoryEntry[] {
+        const data = hasHeader ? rows.slice(1) : rows;
+        const entries: HistoryEntry[] = [];
+
+        for (const row of data) {
+            const date = normalizeDate(row[columns.date] ?? '');
+            const sourceHabit = row[columns.habit]?.trim();
+            if (!date || !sourceHabit) continue;
+
+            const value = (row[columns.value] ?? '').trim().toLowerCase();
+            const numeric = Number(value.replace(',', '.'));
+            const completed = Number.isNaN(numeric) ? !FALSY_VALUES.has(value) : numeric > 0;
+
+            entries.push({ date, sourceHabit, completed });
+        }
+
+        return entries;
+    }
+
+    /**
+     * List the habits found in the entries, in order of appearance,
+     * with the first day each was completed
+     */
+    static getSourceHabits(entries: HistoryEntry[]): SourceHabit[] {
+        const habits = new Map<string, SourceHabit>();
+
+        for (const entry of entries) {
+            let source = habits.get(entry.sourceHabit);
+            if (!source) {
+                source = { name: entry.sourceHabit, entries: 0 };
+                habits.set(entry.sourceHabit, source);
+            }
+
+            source.entries++;
+            if (entry.completed && (!source.firstDate || entry.date < source.firstDate)) {
+                source.firstDate = entry.date;
+            }
+        }
+
+        return Array.from(habits.values());
+    }
+
+    /**
+     * Suggest a mapping: source habits with the same name (case-insensitive)
+     * as an existing habit go to it, the rest become new habits
+     */
+    static suggestMapping(sourceHabits: SourceHabit[], habits: Habit[]): Record<string, HabitMappingTarget> {
+        const mapping: Record<string, HabitMappingTarget> = {};
+
+        for (const source of sourceHabits) {
+            const match = habits.find(h => h.name.trim().toLowerCase() === source.name.toLowerCase());
+            mapping[source.name] = match ? { type: 'existing', habitId: match.id } : { type: 'new' };
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Write the entries as logs, creating habits where requested.
+     * Each target habit's start date is moved back to its first completed day;
+     * "not done" entries never move it and never replace a log already in the app
+     * (Loop exports a 0 for every unchecked day).
+     * Amounts are judged against the target habit's target, as when typed in the app.
+     * 
+     * @param entries - Parsed entries
+     * @param mapping - Target of each source habit
+     * @returns Counts of created habits, written logs and kept existing logs
+     */
+    static async importEntries(
+        entries: HistoryEntry[],
+        mapping: Record<string, HabitMappingTarget>
+    ): Promise<HistoryImportResult> {
+        const sourceHabits = this.getSourceHabits(entries);
+        const targets = new Map<string, Habit>();
+        let habitsCreated = 0;
+
+        for (const source of sourceHabits) {
+            const target = mapping[source.name] ?? { type: 'skip' };
+
+            if (target.type === 'new') {
+                const habit = HabitService.createHabit({
+                    name: source.name,
+                    color: HABIT_COLORS[(HabitService.getHabits().length) % HABIT_COLORS.length],
+                    mandatory: false,
+                    startDate: source.firstDate,
+                });
+                targets.set(source.name, habit);
+                habitsCreated++;
+            } else if (target.type === 'existing') {
+                const habit = HabitService.getHabitById(target.habitId);
+                if (!habit) continue;
+
+                if (source.firstDate && source.firstDate < habit.startDate) {
+                    HabitService.updateHabit(habit.id, { startDate: source.firstDate });
+                }
+                targets.set(source.name, habit);
+            }
+        }
+
+        const logs: HabitLog[] = [];
+        let logsKept = 0;
+        for (const entry of entries) {
+            const habit = targets.get(entry.sourceHabit);
+            if (!habit) continue;
+
+            if (!entry.completed && HabitLogService.getLog(habit.id, entry.date)) {
+                logsKept++;
+                continue;
+            }
+
+            if (entry.value === undefined) {
+                logs.push({ habitId: habit.id, date: entry.date, completed: entry.completed });
+            } else {
+                const completed = habit.target
+                    ? HabitLogService.meetsTarget(habit.target, entry.value)
+                    : entry.value > 0;
+                logs.push({ habitId: habit.id, date: entry.date, completed, value: entry.value });
+            }
+        }
+
+        await HabitLogService.setCompletions(logs);
+
+        return { habitsCreated, logsWritten: logs.length, logsKept };
+    }
+}
+
+export default HistoryImportService;
@@ -3,5 +3,19 @@
  */
 
 export { StorageService } from './storage.service';
+export { HabitDatabaseService } from './habitDatabase.service';
 export { HabitService } from './habit.service';
+export { LogStoreService } from './logStore.service';
+export { MigrationService, MIGRATIONS, CURRENT_SCHEMA_VERSION } from './migration.service';
 export { HabitLogService } from './habitLog.service';
+export { BackupService } from './backup.service';
+export { ExportService } from './export.service';
+export { HistoryImportService } from './historyImport.service';
+export { ScheduleService } from './schedule.service';
+export { StreakService } from './streak.service';
+export { StatsService } from './stats.service';
+export { PauseService } from './pause.service';
+export { NoteService } from './note.service';
+export { ReminderService } from './reminder.service';
+export { TabSyncService } from './tabSync.service';
+export { SyncService } from './sync.service';
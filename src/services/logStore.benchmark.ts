@@ -0,0 +1,70 @@
+import { bench, describe, vi } from 'vitest';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitLogService } from './habitLog.service';
+import { HabitService } from './habit.service';
+import { createLargeDataset, DATASET_TODAY, DATASET_YEARS } from './logStore.dataset';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import { StreakService } from './streak.service';
+import { addDays, getYearRange } from '../utils';
+
+/**
+ * Timings of the log store on a large dataset, run with `npm run bench`.
+ * Kept out of `npm test`, whose results must not depend on the machine.
+ */
+const { firstDay, habits, logs, pauses, random } = createLargeDataset();
+const range = getYearRange(Number(DATASET_TODAY.slice(0, 4)));
+
+// Only the in-memory state is measured: IndexedDB isn't available here
+vi.spyOn(HabitDatabaseService, 'replaceState').mockResolvedValue();
+vi.spyOn(HabitDatabaseService, 'putLog').mockResolvedValue();
+
+await HabitService.replaceState({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    habits,
+    logs,
+    pauses,
+    notes: [],
+    settings: { currentYear: Number(DATASET_TODAY.slice(0, 4)) },
+});
+
+describe(`${DATASET_YEARS} years of 30 habits`, () => {
+    bench('look up every log of the dataset', () => {
+        for (const log of logs) {
+            HabitLogService.getLog(log.habitId, log.date);
+        }
+    });
+
+    bench('check every habit on every day of a year', () => {
+        for (let i = 0; i < 365; i++) {
+            const date = addDays(DATASET_TODAY, -i);
+            for (const habit of habits) {
+                HabitLogService.isCompleted(habit.id, date);
+            }
+        }
+    });
+
+    bench('build the day statuses of a year', () => {
+        HabitLogService.getDayStatusMap(range, habits);
+    });
+
+    bench('build the day statuses of the whole dataset', () => {
+        HabitLogService.getDayStatusMap({ start: firstDay, end: DATASET_TODAY }, habits);
+    }, { iterations: 3 });
+
+    let statusMap = HabitLogService.getDayStatusMap(range, habits);
+    let streaks = StreakService.getSummary(habits, pauses, DATASET_TODAY);
+
+    bench('toggle a day, updating day statuses and streaks', () => {
+        const habit = habits[Math.floor(random() * habits.length)];
+        // Mostly recent days, sometimes years back
+        const daysBack = Math.floor(random() * (random() < 0.25 ? DATASET_YEARS * 365 : 30));
+        const date = addDays(DATASET_TODAY, -daysBack);
+
+        // Same steps as a toggle in HabitContext
+        HabitLogService.toggleCompletion(habit.id, date);
+        const dates = HabitLogService.getAffectedDates(habit.id, date);
+        HabitLogService.getLogs();
+        statusMap = HabitLogService.updateDayStatusMap(statusMap, range, habits, dates);
+        streaks = StreakService.updateSummary(streaks, habits, pauses, habit.id, dates, DATASET_TODAY);
+    });
+});
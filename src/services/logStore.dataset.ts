@@ -0,0 +1,69 @@
+import { addDays } from '../utils';
+import type { Habit, HabitLog, HabitPause, HabitSchedule } from '../types';
+
+/**
+ * Last day of the dataset, used as "today"
+ */
+export const DATASET_TODAY = '2026-06-30';
+
+/**
+ * Dataset size: 10 years of 30 habits, about half of the days logged
+ */
+export const DATASET_YEARS = 10;
+const HABIT_COUNT = 30;
+
+const SCHEDULES: (HabitSchedule | undefined)[] = [
+    undefined,
+    { type: 'weekdays', days: [0, 2, 4] },
+    { type: 'weeklyQuota', times: 3 },
+    { type: 'monthlyQuota', times: 10 },
+    { type: 'interval', every: 3 },
+];
+
+/**
+ * Large dataset shared by the log store tests and benchmarks
+ */
+export interface LargeDataset {
+    firstDay: string;
+    habits: Habit[];
+    logs: HabitLog[];
+    pauses: HabitPause[];
+    /** Deterministic pseudo-random numbers in [0, 1), continuing the dataset's sequence */
+    random: () => number;
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1), so every run uses the same data
+ */
+function createRandom(seed: number): () => number {
+    return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+}
+
+/**
+ * Build years of logs of many habits with every kind of schedule
+ */
+export function createLargeDataset(): LargeDataset {
+    const random = createRandom(42);
+    const firstDay = addDays(DATASET_TODAY, -DATASET_YEARS * 365);
+
+    const habits: Habit[] = Array.from({ length: HABIT_COUNT }, (_, i) => ({
+        id: `habit-${i}`,
+        name: `Hábito ${i}`,
+        color: '#4caf50',
+        mandatory: i % 3 === 0,
+        createdAt: `${firstDay}T00:00:00.000Z`,
+        startDate: addDays(firstDay, i * 7),
+        schedule: SCHEDULES[i % SCHEDULES.length],
+    }));
+
+    const logs: HabitLog[] = [];
+    for (const habit of habits) {
+        for (let date = habit.startDate; date <= DATASET_TODAY; date = addDays(date, 1)) {
+            if (random() < 0.5) {
+                logs.push({ habitId: habit.id, date, completed: true });
+            }
+        }
+    }
+
+    return { firstDay, habits, logs, pauses: [], random };
+}
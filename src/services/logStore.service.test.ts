@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitLogService } from './habitLog.service';
+import { HabitService } from './habit.service';
+import { LogStoreService } from './logStore.service';
+import { createLargeDataset, DATASET_TODAY, DATASET_YEARS } from './logStore.dataset';
+import { CURRENT_SCHEMA_VERSION } from './migration.service';
+import { StreakService } from './streak.service';
+import { addDays, getYearRange } from '../utils';
+
+/**
+ * Timings are measured separately by `npm run bench` (logStore.benchmark.ts);
+ * these tests count the work done instead, so they don't depend on the machine.
+ */
+describe(`${DATASET_YEARS} years of 30 habits`, () => {
+    const { firstDay, habits, logs, pauses, random } = createLargeDataset();
+
+    /**
+     * Methods that read lists of logs instead of single logs
+     */
+    const spyOnListReads = () => [
+        vi.spyOn(LogStoreService, 'getAll'),
+        vi.spyOn(LogStoreService, 'getForYear'),
+        vi.spyOn(LogStoreService, 'getForRange'),
+        vi.spyOn(LogStoreService, 'getForHabit'),
+    ];
+
+    beforeAll(async () => {
+        // Only the in-memory state is tested: IndexedDB isn't available here
+        vi.spyOn(HabitDatabaseService, 'replaceState').mockResolvedValue();
+        vi.spyOn(HabitDatabaseService, 'putLog').mockResolvedValue();
+
+        await HabitService.replaceState({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            habits,
+            logs,
+            pauses,
+            notes: [],
+            settings: { currentYear: Number(DATASET_TODAY.slice(0, 4)) },
+        });
+    });
+
+    it('looks up each log directly, without reading any list', () => {
+        const get = vi.spyOn(LogStoreService, 'get');
+        const listReads = spyOnListReads();
+
+        let found = 0;
+        for (const log of logs) {
+            if (HabitLogService.isCompleted(log.habitId, log.date)) found++;
+        }
+
+        expect(logs.length).toBeGreaterThan(50_000);
+        expect(found).toBe(logs.length);
+        expect(get).toHaveBeenCalledTimes(logs.length);
+        listReads.forEach(spy => expect(spy).not.toHaveBeenCalled());
+
+        get.mockRestore();
+        listReads.forEach(spy => spy.mockRestore());
+    });
+
+    it('toggles a day re-evaluating only the changed days and habit', () => {
+        const range = getYearRange(Number(DATASET_TODAY.slice(0, 4)));
+        let statusMap = HabitLogService.getDayStatusMap(range, habits);
+        let streaks = StreakService.getSummary(habits, pauses, DATASET_TODAY);
+
+        const getLog = vi.spyOn(HabitLogService, 'getLog');
+        const getHabitStreak = vi.spyOn(StreakService, 'getHabitStreak');
+        const listReads = spyOnListReads();
+
+        for (let i = 0; i < 40; i++) {
+            const habit = habits[Math.floor(random() * habits.length)];
+            // Mostly recent days, sometimes years back
+            const daysBack = Math.floor(random() * (i % 4 === 0 ? DATASET_YEARS * 365 : 30));
+            const date = addDays(DATASET_TODAY, -daysBack);
+
+            HabitLogService.toggleCompletion(habit.id, date);
+            const dates = HabitLogService.getAffectedDates(habit.id, date);
+
+            // Same steps as a toggle in HabitContext
+            getLog.mockClear();
+            statusMap = HabitLogService.updateDayStatusMap(statusMap, range, habits, dates);
+            const inRange = dates.filter(d => d >= range.start && d <= range.end);
+            // A few reads per habit and day of a quota period, whatever the size of the history
+            expect(getLog.mock.calls.length).toBeLessThanOrEqual(inRange.length * habits.length * 100);
+
+            getHabitStreak.mockClear();
+            streaks = StreakService.updateSummary(streaks, habits, pauses, habit.id, dates, DATASET_TODAY);
+            expect(getHabitStreak).toHaveBeenCalledTimes(1);
+        }
+
+        listReads.forEach(spy => expect(spy).not.toHaveBeenCalled());
+        getLog.mockRestore();
+        getHabitStreak.mockRestore();
+        listReads.forEach(spy => spy.mockRestore());
+
+        // The incremental results match a full recalculation
+        expect(streaks).toEqual(StreakService.getSummary(habits, pauses, DATASET_TODAY));
+        expect(statusMap).toEqual(HabitLogService.getDayStatusMap(range, habits));
+    });
+
+    it('builds the day statuses of the whole dataset from the logs of its range', () => {
+        const getForRange = vi.spyOn(LogStoreService, 'getForRange');
+
+        const statusMap = HabitLogService.getDayStatusMap({ start: firstDay, end: DATASET_TODAY }, habits);
+
+        expect(statusMap.size).toBeGreaterThan(DATASET_YEARS * 360);
+        expect(getForRange).toHaveBeenCalledTimes(1);
+        getForRange.mockRestore();
+    });
+});
@@ -0,0 +1,189 @@
+import type { HabitLog } from '../types';
+
+/**
+ * Unique key of a log (one log per habit and date)
+ */
+function logKey(habitId: string, date: string): string {
+    return `${habitId}|${date}`;
+}
+
+/**
+ * Year of a "YYYY-MM-DD" date
+ */
+function yearOf(date: string): number {
+    return Number(date.slice(0, 4));
+}
+
+/**
+ * Log Store Service
+ *
+ * In-memory index of the habit logs, loaded once with `load()` and kept in sync
+ * by the writes of HabitService and HabitLogService.
+ * - Logs are indexed by habit, then by date, so single lookups don't scan the list
+ *   (and don't build a combined key string, which matters in multi-year scans)
+ * - Each year keeps its own index, so yearly views only visit that year's logs
+ * - Lists are built on demand and cached until the next write
+ *
+ * Follows Single Responsibility Principle - only indexes logs in memory.
+ */
+export class LogStoreService {
+    /** Logs of each habit by date */
+    private static byHabit = new Map<string, Map<string, HabitLog>>();
+
+    /** Logs of each year by habit and date */
+    private static byYear = new Map<number, Map<string, HabitLog>>();
+
+    /** Cached list of every log, dropped on writes */
+    private static allLogs: HabitLog[] | null = null;
+
+    /** Cached lists per year, dropped on writes to that year */
+    private static yearLogs = new Map<number, HabitLog[]>();
+
+    /**
+     * Replace the indexed logs (after loading or replacing the app state)
+     */
+    static load(logs: HabitLog[]): void {
+        this.byHabit.clear();
+        this.byYear.clear();
+        this.yearLogs.clear();
+        this.allLogs = null;
+
+        for (const log of logs) {
+            this.index(log);
+        }
+    }
+
+    /**
+     * Get the log of a habit on a date
+     */
+    static get(habitId: string, date: string): HabitLog | undefined {
+        return this.byHabit.get(habitId)?.get(date);
+    }
+
+    /**
+     * Get every log
+     */
+    static getAll(): HabitLog[] {
+        this.allLogs ??= Array.from(this.byYear.values()).flatMap(logs => Array.from(logs.values()));
+        return this.allLogs;
+    }
+
+    /**
+     * Get the logs of a year
+     */
+    static getForYear(year: number): HabitLog[] {
+        let logs = this.yearLogs.get(year);
+
+        if (!logs) {
+            logs = Array.from(this.byYear.get(year)?.values() ?? []);
+            this.yearLogs.set(year, logs);
+        }
+
+        return logs;
+    }
+
+    /**
+     * Get the logs between two dates (inclusive), visiting only the years they span
+     */
+    static getForRange(start: string, end: string): HabitLog[] {
+        const logs: HabitLog[] = [];
+
+        for (let year = yearOf(start); year <= yearOf(end); year++) {
+            for (const log of this.getForYear(year)) {
+                if (log.date >= start && log.date <= end) {
+                    logs.push(log);
+                }
+            }
+        }
+
+        return logs;
+    }
+
+    /**
+     * Years that have at least one log, in ascending order
+     */
+    static getYears(): number[] {
+        return Array.from(this.byYear.entries())
+            .filter(([, logs]) => logs.size > 0)
+            .map(([year]) => year)
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Get the logs of a habit
+     */
+    static getForHabit(habitId: string): HabitLog[] {
+        return Array.from(this.byHabit.get(habitId)?.values() ?? []);
+    }
+
+    /**
+     * Insert or replace a log
+     */
+    static put(log: HabitLog): void {
+        this.index(log);
+        this.invalidate(yearOf(log.date));
+    }
+
+    /**
+     * Insert or replace many logs
+     */
+    static putMany(logs: HabitLog[]): void {
+        for (const log of logs) {
+            this.put(log);
+        }
+    }
+
+    /**
+     * Remove the log of a habit on a date
+     */
+    static delete(habitId: string, date: string): void {
+        const year = yearOf(date);
+
+        if (this.byHabit.get(habitId)?.delete(date)) {
+            this.byYear.get(year)?.delete(logKey(habitId, date));
+            this.invalidate(year);
+        }
+    }
+
+    /**
+     * Remove every log of a habit
+     */
+    static deleteHabit(habitId: string): void {
+        for (const log of this.getForHabit(habitId)) {
+            this.delete(log.habitId, log.date);
+        }
+    }
+
+    /**
+     * Add a log to the indexes
+     */
+    private static index(log: HabitLog): void {
+        const key = logKey(log.habitId, log.date);
+        const year = yearOf(log.date);
+
+        let habitIndex = this.byHabit.get(log.habitId);
+        if (!habitIndex) {
+            habitIndex = new Map();
+            this.byHabit.set(log.habitId, habitIndex);
+        }
+
+        let yearIndex = this.byYear.get(year);
+        if (!yearIndex) {
+            yearIndex = new Map();
+            this.byYear.set(year, yearIndex);
+        }
+
+        habitIndex.set(log.date, log);
+        yearIndex.set(key, log);
+    }
+
+    /**
+     * Drop the cached lists affected by a write to a year
+     */
+    private static invalidate(year: number): void {
+        this.allLogs = null;
+        this.yearLogs.delete(year);
+    }
+}
+
+export default LogStoreService;
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, MigrationService } from './migration.service';
+import type { UnversionedAppState } from './migration.service';
+import type { Habit, HabitPause } from '../types';
+
+/**
+ * A habit saved before start dates existed, created in the evening
+ * of March 1st in Los Angeles, already March 2nd in UTC
+ */
+const legacyHabit = {
+    id: 'habit-1',
+    name: 'Leer',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-03-02T05:00:00.000Z',
+} as Habit;
+
+const pause: HabitPause = { id: 'pause-1', habitId: 'habit-1', start: '2026-03-05', end: '2026-03-07' };
+
+const settings = { currentYear: 2026 };
+
+describe('MigrationService.migrate', () => {
+    beforeAll(() => {
+        vi.stubEnv('TZ', 'America/Los_Angeles');
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('runs every migration on unversioned state', () => {
+        const state: UnversionedAppState = { habits: [legacyHabit], logs: [], settings };
+
+        expect(MigrationService.needsMigration(state)).toBe(true);
+        expect(MigrationService.migrate(state)).toEqual({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            habits: [{ ...legacyHabit, startDate: '2026-03-01' }],
+            logs: [],
+            pauses: [],
+            notes: [],
+            settings,
+        });
+    });
+
+    it('backfills startDate with the local day of createdAt', () => {
+        const [habit] = MigrationService.migrate({ habits: [legacyHabit], logs: [], settings }).habits;
+
+        expect(habit.startDate).toBe('2026-03-01');
+        expect(habit.createdAt.slice(0, 10)).toBe('2026-03-02');
+    });
+
+    it('keeps the start date of habits that already have one', () => {
+        const habit = { ...legacyHabit, startDate: '2026-02-15' };
+
+        expect(MigrationService.migrate({ habits: [habit], logs: [], settings }).habits).toEqual([habit]);
+    });
+
+    it('adds pauses and notes from version 1, keeping the existing habits', () => {
+        const habit = { ...legacyHabit, startDate: '2026-02-15' };
+        const migrated = MigrationService.migrate({ schemaVersion: 1, habits: [habit], logs: [], settings });
+
+        expect(migrated).toEqual({
+            schemaVersion: 3,
+            habits: [habit],
+            logs: [],
+            pauses: [],
+            notes: [],
+            settings,
+        });
+    });
+
+    it('keeps the pauses of version 2 and adds notes', () => {
+        const habit = { ...legacyHabit, startDate: '2026-02-15' };
+        const migrated = MigrationService.migrate({ schemaVersion: 2, habits: [habit], logs: [], pauses: [pause], settings });
+
+        expect(migrated.schemaVersion).toBe(3);
+        expect(migrated.pauses).toEqual([pause]);
+        expect(migrated.notes).toEqual([]);
+    });
+
+    it('leaves state at the current version untouched', () => {
+        const state = {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            habits: [{ ...legacyHabit, startDate: '2026-02-15' }],
+            logs: [],
+            pauses: [pause],
+            notes: [],
+            settings,
+        };
+
+        expect(MigrationService.needsMigration(state)).toBe(false);
+        expect(MigrationService.migrate(state)).toEqual(state);
+    });
+
+    it('runs each migration once, in order, from the stored version', () => {
+        const applied: number[] = [];
+        const registry = MIGRATIONS.map(migration => ({
+            ...migration,
+            migrate: (state: Parameters<typeof migration.migrate>[0]) => {
+                applied.push(migration.version);
+                return migration.migrate(state);
+            },
+        }));
+
+        MigrationService.migrate({ schemaVersion: 1, habits: [], logs: [], settings }, registry);
+
+        expect(applied).toEqual([2, 3]);
+    });
+});
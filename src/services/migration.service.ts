@@ -0,0 +1,112 @@
+import { toLocalDateString } from '../utils';
+import type { DayNote, HabitAppState, HabitPause } from '../types';
+
+/**
+ * App state as it may be found in storage or in an old backup,
+ * before any migration has stamped it with a schema version.
+ * Fields added by later migrations may be missing.
+ */
+export type UnversionedAppState = Omit<HabitAppState, 'schemaVersion' | 'pauses' | 'notes'> & {
+    schemaVersion?: number;
+    pauses?: HabitPause[];
+    notes?: DayNote[];
+};
+
+/**
+ * A single step of the schema migration pipeline
+ */
+export interface StateMigration {
+    /** Schema version the state has after this migration */
+    version: number;
+    /** Short description of what changes */
+    description: string;
+    /** Pure function upgrading the state from the previous version */
+    migrate: (state: HabitAppState) => HabitAppState;
+}
+
+/**
+ * Ordered migration registry.
+ * Append new migrations at the end with the next version number;
+ * never edit a migration that has already shipped.
+ */
+export const MIGRATIONS: StateMigration[] = [
+    {
+        version: 1,
+        description: 'Backfill startDate from createdAt for habits created before start dates existed',
+        migrate: (state) => ({
+            ...state,
+            habits: state.habits.map(habit => habit.startDate
+                ? habit
+                : { ...habit, startDate: toLocalDateString(new Date(habit.createdAt)) }
+            ),
+        }),
+    },
+    {
+        version: 2,
+        description: 'Add the list of pause periods',
+        migrate: (state) => ({
+            ...state,
+            pauses: state.pauses ?? [],
+        }),
+    },
+    {
+        version: 3,
+        description: 'Add per-day notes and mood ratings',
+        migrate: (state) => ({
+            ...state,
+            notes: state.notes ?? [],
+        }),
+    },
+];
+
+/**
+ * Schema version written by this build of the app
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Migration Service
+ * 
+ * Upgrades persisted app state step by step to the current schema version.
+ * Each migration is a pure function, so the whole pipeline can be run
+ * on plain objects without touching storage.
+ */
+export class MigrationService {
+    /**
+     * Get the schema version of a state (unversioned state counts as 0)
+     */
+    static getVersion(state: UnversionedAppState): number {
+        return state.schemaVersion ?? 0;
+    }
+
+    /**
+     * Check whether a state needs to be migrated
+     */
+    static needsMigration(state: UnversionedAppState): boolean {
+        return this.getVersion(state) < CURRENT_SCHEMA_VERSION;
+    }
+
+    /**
+     * Run every pending migration in order
+     * 
+     * @param state - State at any older (or the current) schema version
+     * @param migrations - Migration registry (defaults to MIGRATIONS)
+     * @returns The state at the latest schema version of the registry
+     */
+    static migrate(state: UnversionedAppState, migrations: StateMigration[] = MIGRATIONS): HabitAppState {
+        const fromVersion = this.getVersion(state);
+
+        return migrations
+            .filter(migration => migration.version > fromVersion)
+            .reduce<HabitAppState>(
+                (current, migration) => ({
+                    ...migration.migrate(current),
+                    schemaVersion: migration.version,
+                }),
+                // Missing fields are backfilled by the migration that introduced them
+                { ...state, schemaVersion: fromVersion } as HabitAppState
+            );
+    }
+}
+
+export default MigrationService;
@@ -0,0 +1,170 @@
+import { HabitService } from './habit.service';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { HabitLogService } from './habitLog.service';
+import { PauseService } from './pause.service';
+import { ScheduleService } from './schedule.service';
+import type { DayNote, Habit, HabitLog, HabitPause, MoodBucket, MoodRating, MoodSummary } from '../types';
+
+/**
+ * Mood ratings in ascending order
+ */
+const MOODS: MoodRating[] = [1, 2, 3, 4, 5];
+
+/**
+ * Minimum number of rated days before a correlation is reported
+ */
+const MIN_CORRELATION_DAYS = 5;
+
+/**
+ * Pearson correlation coefficient of two equally long series
+ */
+function pearson(xs: number[], ys: number[]): number | null {
+    const n = xs.length;
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+
+    for (let i = 0; i < n; i++) {
+        covariance += (xs[i] - meanX) * (ys[i] - meanY);
+        varianceX += (xs[i] - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    // Constant series have no correlation
+    if (varianceX === 0 || varianceY === 0) {
+        return null;
+    }
+
+    return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Note Service
+ *
+ * Handles per-day notes and mood ratings, note search and
+ * the relation between mood and mandatory-habit completion.
+ *
+ * Follows Single Responsibility Principle - only handles day notes.
+ */
+export class NoteService {
+    /**
+     * Get all notes
+     */
+    static getNotes(): DayNote[] {
+        return HabitService.getStateWithoutLogs().notes;
+    }
+
+    /**
+     * Get the note of a day
+     */
+    static getNote(date: string): DayNote | undefined {
+        return this.getNotes().find(n => n.date === date);
+    }
+
+    /**
+     * Save the note of a day. An empty text without mood removes the note.
+     *
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param text - Note text
+     * @param mood - Optional mood rating
+     * @returns The saved note, or undefined if it was removed
+     */
+    static saveNote(date: string, text: string, mood?: MoodRating): DayNote | undefined {
+        const state = HabitService.getStateWithoutLogs();
+        const others = state.notes.filter(n => n.date !== date);
+        const trimmed = text.trim();
+
+        if (!trimmed && mood === undefined) {
+            state.notes = others;
+            void HabitDatabaseService.deleteNote(date);
+            return undefined;
+        }
+
+        const note: DayNote = {
+            date,
+            text: trimmed,
+            ...(mood !== undefined && { mood }),
+            updatedAt: new Date().toISOString(),
+        };
+
+        state.notes = [...others, note];
+        void HabitDatabaseService.putNote(note);
+
+        return note;
+    }
+
+    /**
+     * Find notes containing a text (case and accent insensitive), newest first
+     *
+     * @param query - Text to look for; an empty query returns every note
+     */
+    static search(query: string, notes: DayNote[] = this.getNotes()): DayNote[] {
+        const normalize = (value: string) =>
+            value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+        const needle = normalize(query.trim());
+
+        return notes
+            .filter(note => !needle || normalize(note.text).includes(needle))
+            .sort((a, b) => b.date.localeCompare(a.date));
+    }
+
+    /**
+     * Relate mood ratings to the share of due mandatory habits completed on the same day.
+     * Days without due mandatory habits (all paused or skipped) are left out.
+     *
+     * @param habits - All habits
+     * @param logs - All logs
+     * @param pauses - All pauses
+     * @param notes - All notes
+     */
+    static getMoodSummary(
+        habits: Habit[],
+        logs: HabitLog[],
+        pauses: HabitPause[],
+        notes: DayNote[]
+    ): MoodSummary {
+        const mandatory = habits.filter(h => h.mandatory);
+        const isDone = HabitLogService.createDoneLookup(mandatory, logs);
+        const isPaused = PauseService.createPauseLookup(pauses);
+        const isSkipped = HabitLogService.createSkipLookup(logs);
+
+        const samples: { mood: MoodRating; rate: number }[] = [];
+
+        for (const note of notes) {
+            if (note.mood === undefined) continue;
+
+            const due = mandatory.filter(h =>
+                !isPaused(h.id, note.date) &&
+                !isSkipped(h.id, note.date) &&
+                ScheduleService.isDue(h, note.date, d => isDone(h.id, d))
+            );
+            if (due.length === 0) continue;
+
+            const done = due.filter(h => isDone(h.id, note.date)).length;
+            samples.push({ mood: note.mood, rate: done / due.length });
+        }
+
+        const buckets: MoodBucket[] = MOODS.map(mood => {
+            const rates = samples.filter(s => s.mood === mood).map(s => s.rate);
+            return {
+                mood,
+                days: rates.length,
+                mandatoryRate: rates.length > 0
+                    ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length
+                    : null,
+            };
+        });
+
+        return {
+            buckets,
+            correlation: samples.length >= MIN_CORRELATION_DAYS
+                ? pearson(samples.map(s => s.mood), samples.map(s => s.rate))
+                : null,
+        };
+    }
+}
+
+export default NoteService;
@@ -0,0 +1,100 @@
+import { generateId } from '../utils';
+import { HabitService } from './habit.service';
+import { HabitDatabaseService } from './habitDatabase.service';
+import type { CreatePauseData, HabitPause } from '../types';
+
+/**
+ * Pause Service
+ *
+ * Manages pause periods (vacation mode), either for a single habit
+ * or for every habit. Paused days are treated as not due.
+ *
+ * Follows Single Responsibility Principle - only handles pauses.
+ */
+export class PauseService {
+    /**
+     * Get all pauses
+     */
+    static getPauses(): HabitPause[] {
+        return HabitService.getStateWithoutLogs().pauses;
+    }
+
+    /**
+     * Create a pause period
+     *
+     * @param data - Date range, optional habit and reason
+     * @returns The created pause
+     */
+    static addPause(data: CreatePauseData): HabitPause {
+        const state = HabitService.getStateWithoutLogs();
+
+        // Accept the dates in either order
+        const [start, end] = data.start <= data.end ? [data.start, data.end] : [data.end, data.start];
+
+        const pause: HabitPause = {
+            id: generateId(),
+            start,
+            end,
+            ...(data.habitId && { habitId: data.habitId }),
+            ...(data.reason && { reason: data.reason }),
+        };
+
+        state.pauses = [...state.pauses, pause];
+        void HabitDatabaseService.putPause(pause);
+
+        return pause;
+    }
+
+    /**
+     * Put back a deleted pause (used by undo/redo)
+     */
+    static restorePause(pause: HabitPause): void {
+        const state = HabitService.getStateWithoutLogs();
+        state.pauses = [...state.pauses.filter(p => p.id !== pause.id), pause];
+        void HabitDatabaseService.putPause(pause);
+    }
+
+    /**
+     * Delete a pause
+     *
+     * @returns True if deleted, false if not found
+     */
+    static deletePause(id: string): boolean {
+        const state = HabitService.getStateWithoutLogs();
+
+        if (!state.pauses.some(p => p.id === id)) {
+            return false;
+        }
+
+        state.pauses = state.pauses.filter(p => p.id !== id);
+        void HabitDatabaseService.deletePause(id);
+        return true;
+    }
+
+    /**
+     * Build a lookup telling whether a habit is paused on a date
+     *
+     * @param pauses - Pauses to check (default: all stored pauses)
+     * @returns Whether a habit is paused on a given date
+     */
+    static createPauseLookup(pauses: HabitPause[] = this.getPauses()): (habitId: string, date: string) => boolean {
+        if (pauses.length === 0) {
+            return () => false;
+        }
+
+        return (habitId, date) => pauses.some(p =>
+            (p.habitId === undefined || p.habitId === habitId) &&
+            p.start <= date &&
+            date <= p.end
+        );
+    }
+
+    /**
+     * Check whether every habit is paused on a date (global pause)
+     */
+    static isGloballyPaused(date: string, pauses: HabitPause[] = this.getPauses()): boolean {
+        return pauses.some(p => p.habitId === undefined && p.start <= date && date <= p.end);
+    }
+}
+
+export default PauseService;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ReminderService } from './reminder.service';
+import type { Habit, HabitLog } from '../types';
+
+const quotaHabit: Habit = {
+    id: 'habit-1',
+    name: 'Correr',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-01',
+    schedule: { type: 'weeklyQuota', times: 3 },
+    reminder: '20:00',
+};
+
+function done(date: string): HabitLog {
+    return { habitId: quotaHabit.id, date, completed: true };
+}
+
+// Tuesday 2026-03-03, morning
+const NOW = new Date(2026, 2, 3, 9, 0);
+
+describe('ReminderService.getPendingReminders', () => {
+    it('reminds a quota habit on any day of the period while the quota is open', () => {
+        const reminders = ReminderService.getPendingReminders([quotaHabit], [done('2026-03-02')], [], NOW);
+
+        expect(reminders).toHaveLength(1);
+        expect(reminders[0]).toMatchObject({ habitId: quotaHabit.id, date: '2026-03-03' });
+    });
+
+    it('stops once the quota is met or the day is done', () => {
+        const onceAWeek: Habit = { ...quotaHabit, schedule: { type: 'weeklyQuota', times: 1 } };
+
+        expect(ReminderService.getPendingReminders([onceAWeek], [done('2026-03-02')], [], NOW)).toEqual([]);
+        expect(ReminderService.getPendingReminders([quotaHabit], [done('2026-03-03')], [], NOW)).toEqual([]);
+    });
+});
@@ -0,0 +1,200 @@
+import { getToday } from '../utils';
+import { HabitLogService } from './habitLog.service';
+import { PauseService } from './pause.service';
+import { ScheduleService } from './schedule.service';
+import type { Habit, HabitLog, HabitPause, ReminderMessage, ReminderPermission, ReminderSchedule } from '../types';
+
+/**
+ * Tag of the periodic background sync that delivers reminders while the app is closed
+ */
+const PERIODIC_SYNC_TAG = 'habit-reminders';
+
+/**
+ * Minimum interval between periodic syncs (the browser may wait longer)
+ */
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * URL search parameter carrying the habit to quick-log
+ */
+const QUICK_LOG_PARAM = 'quicklog';
+
+/**
+ * Notification action buttons, handled by public/reminder-sw.js
+ */
+const REMINDER_ACTIONS = [
+    { action: 'done', title: 'Hecho' },
+    { action: 'snooze', title: 'Posponer' },
+];
+
+/**
+ * Notification options with action buttons (only in the worker typings)
+ */
+interface ReminderNotificationOptions extends NotificationOptions {
+    actions: { action: string; title: string }[];
+}
+
+/**
+ * Periodic Background Sync API (not yet in the DOM typings)
+ */
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+    periodicSync: {
+        register: (tag: string, options: { minInterval: number }) => Promise<void>;
+    };
+}
+
+/**
+ * Reminder Service
+ *
+ * Plans local reminder notifications for habits with a reminder time.
+ * Delivery, from most to least capable:
+ * - Notification Triggers: the service worker schedules the notifications itself
+ * - Periodic background sync: the service worker shows reminders that are due when it wakes up
+ * - In-app scheduler: timers while the app is open (see useReminders)
+ * Notifications carry "Hecho" and "Posponer" actions, handled by the service worker
+ * without opening the app.
+ *
+ * Follows Single Responsibility Principle - only handles reminders.
+ */
+export class ReminderService {
+    /**
+     * Whether the browser can show notifications from the service worker
+     */
+    static isSupported(): boolean {
+        return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+    }
+
+    /**
+     * Whether the service worker can schedule notifications (Notification Triggers)
+     */
+    static supportsTriggers(): boolean {
+        return this.isSupported() && 'showTrigger' in Notification.prototype;
+    }
+
+    /**
+     * Current notification permission
+     */
+    static getPermission(): ReminderPermission {
+        return this.isSupported() ? Notification.permission : 'unsupported';
+    }
+
+    /**
+     * Ask the user for notification permission
+     */
+    static async requestPermission(): Promise<ReminderPermission> {
+        if (!this.isSupported()) return 'unsupported';
+        return Notification.requestPermission();
+    }
+
+    /**
+     * Reminders still pending for a day: habits with a reminder time that still have
+     * to be done on it (see ScheduleService.isOpen) and are neither skipped nor paused
+     *
+     * @param habits - All habits
+     * @param logs - All logs
+     * @param pauses - All pauses
+     * @param now - Current time (default: now)
+     */
+    static getPendingReminders(
+        habits: Habit[],
+        logs: HabitLog[],
+        pauses: HabitPause[],
+        now: Date = new Date()
+    ): ReminderSchedule[] {
+        const today = getToday(now);
+        const isDone = HabitLogService.createDoneLookup(habits, logs);
+        const isSkipped = HabitLogService.createSkipLookup(logs);
+        const isPaused = PauseService.createPauseLookup(pauses);
+
+        return habits
+            .filter(habit =>
+                habit.reminder &&
+                !habit.archivedAt &&
+                !isSkipped(habit.id, today) &&
+                !isPaused(habit.id, today) &&
+                // Quota habits remind on any open day of the period, not only on its last one
+                ScheduleService.isOpen(habit, today, d => isDone(habit.id, d))
+            )
+            .map(habit => {
+                const [hours, minutes] = habit.reminder!.split(':').map(Number);
+                const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+
+                return {
+                    habitId: habit.id,
+                    date: today,
+                    tag: `reminder-${habit.id}-${today}`,
+                    title: habit.name,
+                    body: habit.mandatory
+                        ? 'Hábito obligatorio pendiente hoy'
+                        : 'Todavía no lo has registrado hoy',
+                    at: at.getTime(),
+                    url: this.getQuickLogUrl(habit.id),
+                };
+            });
+    }
+
+    /**
+     * Hand today's reminders to the service worker and register the periodic sync
+     */
+    static async sync(reminders: ReminderSchedule[]): Promise<void> {
+        const registration = await navigator.serviceWorker.ready;
+        const message: ReminderMessage = { type: 'SCHEDULE_REMINDERS', reminders };
+
+        registration.active?.postMessage(message);
+
+        if ('periodicSync' in registration) {
+            try {
+                await (registration as PeriodicSyncRegistration).periodicSync.register(
+                    PERIODIC_SYNC_TAG,
+                    { minInterval: PERIODIC_SYNC_INTERVAL }
+                );
+            } catch {
+                // Periodic sync is only granted to installed apps; the in-app scheduler still works
+            }
+        }
+    }
+
+    /**
+     * Show a reminder now (in-app scheduler)
+     */
+    static async show(reminder: ReminderSchedule): Promise<void> {
+        const registration = await navigator.serviceWorker.ready;
+
+        const options: ReminderNotificationOptions = {
+            body: reminder.body,
+            tag: reminder.tag,
+            icon: '/icons/icon-192x192.png',
+            data: { habitId: reminder.habitId, date: reminder.date, url: reminder.url },
+            actions: REMINDER_ACTIONS,
+        };
+
+        await registration.showNotification(reminder.title, options);
+    }
+
+    /**
+     * URL that opens the quick-log of a habit
+     */
+    static getQuickLogUrl(habitId: string): string {
+        return `/?${QUICK_LOG_PARAM}=${encodeURIComponent(habitId)}`;
+    }
+
+    /**
+     * Habit to quick-log requested through the page URL (tapped notification)
+     */
+    static getQuickLogParam(): string | null {
+        return new URLSearchParams(window.location.search).get(QUICK_LOG_PARAM);
+    }
+
+    /**
+     * Remove the quick-log parameter from the URL, so reloading doesn't reopen it
+     */
+    static clearQuickLogParam(): void {
+        const url = new URL(window.location.href);
+        if (!url.searchParams.has(QUICK_LOG_PARAM)) return;
+
+        url.searchParams.delete(QUICK_LOG_PARAM);
+        window.history.replaceState(null, '', url);
+    }
+}
+
+export default ReminderService;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleService } from './schedule.service';
+import { getDatesBetween } from '../utils';
+import type { Habit } from '../types';
+
+const weeklyHabit: Habit = {
+    id: 'habit-1',
+    name: 'Correr',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-01',
+    schedule: { type: 'weeklyQuota', times: 3 },
+};
+
+// Monday 2026-03-02 to Sunday 2026-03-08
+const WEEK = getDatesBetween('2026-03-02', '2026-03-08');
+
+function getDueDays(habit: Habit, done: string[]): string[] {
+    const isDone = (date: string) => done.includes(date);
+    return WEEK.filter(date => ScheduleService.isDue(habit, date, isDone));
+}
+
+describe('ScheduleService.isDue with a quota', () => {
+    it('makes the missing completions due on the last open days of the period', () => {
+        expect(getDueDays(weeklyHabit, ['2026-03-03'])).toEqual(['2026-03-03', '2026-03-07', '2026-03-08']);
+    });
+
+    it('gives the rate of the quota: 1 of 3 is a third', () => {
+        const due = getDueDays(weeklyHabit, ['2026-03-08']);
+        expect(due).toHaveLength(3);
+    });
+
+    it('has no missed days once the quota is met', () => {
+        const done = ['2026-03-02', '2026-03-04', '2026-03-06'];
+        expect(getDueDays(weeklyHabit, done)).toEqual(done);
+    });
+
+    it('only counts days the habit was tracked on', () => {
+        const archived = { ...weeklyHabit, endDate: '2026-03-04' };
+        expect(getDueDays(archived, [])).toEqual(['2026-03-02', '2026-03-03', '2026-03-04']);
+    });
+});
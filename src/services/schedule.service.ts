@@ -0,0 +1,156 @@
+import { addDays, diffDays, getDatesBetween, getDaysInMonth, getWeekStart, getWeekday } from '../utils';
+import type { Habit, HabitSchedule } from '../types';
+
+/**
+ * Schedule Service
+ * 
+ * Decides on which days a habit is due according to its schedule.
+ * Quota schedules (N times per week/month) are judged over the whole period:
+ * the completions missing from a period's quota count as missed on the
+ * period's last days without a completion, so rates match the quota.
+ * 
+ * Follows Single Responsibility Principle - only handles habit schedules.
+ */
+export class ScheduleService {
+    /**
+     * Whether a schedule is judged per period instead of per day
+     */
+    static isQuota(schedule: HabitSchedule | undefined): schedule is Extract<HabitSchedule, { times: number }> {
+        return schedule?.type === 'weeklyQuota' || schedule?.type === 'monthlyQuota';
+    }
+
+    /**
+     * Get the period (week or month) a date belongs to for a quota schedule
+     * 
+     * @returns First and last date of the period
+     */
+    static getPeriod(schedule: HabitSchedule, date: string): { start: string; end: string } {
+        if (schedule.type === 'monthlyQuota') {
+            const [year, month] = date.split('-').map(Number);
+            const lastDay = getDaysInMonth(year, month - 1);
+            const prefix = date.slice(0, 8);
+            return { start: `${prefix}01`, end: `${prefix}${String(lastDay).padStart(2, '0')}` };
+        }
+
+        const start = getWeekStart(date);
+        return { start, end: addDays(start, 6) };
+    }
+
+    /**
+     * Whether a date falls between the habit's start date and end date (if archived)
+     */
+    static isTracked(habit: Habit, date: string): boolean {
+        return date >= habit.startDate && (habit.endDate === undefined || date <= habit.endDate);
+    }
+
+    /**
+     * Whether the schedule plans the habit on a date, ignoring completions.
+     * Quota schedules can be done on any day.
+     */
+    static isScheduledOn(habit: Habit, date: string): boolean {
+        const schedule = habit.schedule;
+
+        if (!this.isTracked(habit, date)) return false;
+
+        switch (schedule?.type) {
+            case undefined:
+            case 'daily':
+            case 'weeklyQuota':
+            case 'monthlyQuota':
+                return true;
+            case 'weekdays':
+                return schedule.days.includes(getWeekday(date));
+            case 'interval':
+                return diffDays(habit.startDate, date) % Math.max(1, schedule.every) === 0;
+        }
+    }
+
+    /**
+     * Count completions within the quota period containing a date
+     * 
+     * @param isDone - Whether the habit was done on a given date
+     */
+    static getPeriodProgress(
+        habit: Habit,
+        date: string,
+        isDone: (date: string) => boolean
+    ): { done: number; times: number } {
+        if (!this.isQuota(habit.schedule)) {
+            return { done: isDone(date) ? 1 : 0, times: 1 };
+        }
+
+        const { start, end } = this.getPeriod(habit.schedule, date);
+        const done = getDatesBetween(start, end)
+            .filter(d => this.isTracked(habit, d) && isDone(d))
+            .length;
+
+        return { done, times: habit.schedule.times };
+    }
+
+    /**
+     * Whether a habit counts towards a day's totals
+     * 
+     * @param habit - Habit to check
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param isDone - Whether the habit was done on a given date
+     */
+    static isDue(habit: Habit, date: string, isDone: (date: string) => boolean): boolean {
+        if (!this.isScheduledOn(habit, date)) return false;
+
+        if (!this.isQuota(habit.schedule)) return true;
+
+        // Completions always count
+        if (isDone(date)) return true;
+
+        // Otherwise the completions missing from the quota are due on the last
+        // days of the period without one: with 1 of 3 done, two days are missed
+        const { done, times } = this.getPeriodProgress(habit, date, isDone);
+        const missing = times - done;
+        if (missing <= 0) return false;
+
+        const { end } = this.getPeriod(habit.schedule, date);
+        const openDaysAfter = getDatesBetween(addDays(date, 1), end)
+            .filter(d => this.isTracked(habit, d) && !isDone(d))
+            .length;
+
+        return openDaysAfter < missing;
+    }
+
+    /**
+     * Whether a habit still has to be done on a date: planned for it, not done yet,
+     * and for quota schedules with the period's quota still open
+     * 
+     * @param habit - Habit to check
+     * @param date - Date string in "YYYY-MM-DD" format
+     * @param isDone - Whether the habit was done on a given date
+     */
+    static isOpen(habit: Habit, date: string, isDone: (date: string) => boolean): boolean {
+        if (!this.isScheduledOn(habit, date) || isDone(date)) return false;
+
+        const { done, times } = this.getPeriodProgress(habit, date, isDone);
+        return done < times;
+    }
+
+    /**
+     * Short human-readable description of a schedule
+     */
+    static describe(schedule: HabitSchedule | undefined): string {
+        const weekdayNames = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+        switch (schedule?.type) {
+            case undefined:
+            case 'daily':
+                return 'Diario';
+            case 'weekdays':
+                return [...schedule.days].sort().map(d => weekdayNames[d]).join(' ');
+            case 'weeklyQuota':
+                return `${schedule.times}× por semana`;
+            case 'monthlyQuota':
+                return `${schedule.times}× por mes`;
+            case 'interval':
+                return schedule.every === 1 ? 'Diario' : `Cada ${schedule.every} días`;
+        }
+    }
+}
+
+export default ScheduleService;
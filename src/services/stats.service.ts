@@ -0,0 +1,151 @@
+import { addDays, getDatesBetween, getToday, getWeekday } from '../utils';
+import { HabitLogService } from './habitLog.service';
+import { ScheduleService } from './schedule.service';
+import { PauseService } from './pause.service';
+import type { CompletionRate, Habit, HabitLog, HabitPause, RollingTrend, StatsSummary } from '../types';
+
+/**
+ * Rolling window lengths shown on the dashboard, in days
+ */
+const ROLLING_WINDOWS = [30, 90, 365];
+
+/**
+ * Turn due/done counters into a completion rate
+ */
+function toRate(due: number, done: number): CompletionRate {
+    return { due, done, rate: due > 0 ? done / due : 0 };
+}
+
+/**
+ * Stats Service
+ *
+ * Computes completion rates for the statistics dashboard.
+ * A day counts for a habit when the habit is due on it (see ScheduleService.isDue),
+ * so unscheduled, paused and skipped days and days outside the start/end dates
+ * don't lower the rate.
+ * Today is only counted once it has been completed.
+ *
+ * Follows Single Responsibility Principle - only computes statistics.
+ */
+export class StatsService {
+    /**
+     * Visit every due habit/date pair between two dates (inclusive)
+     *
+     * @param visit - Called with the habit, the date and whether it was done
+     */
+    private static forEachDue(
+        habits: Habit[],
+        isDone: (habitId: string, date: string) => boolean,
+        isPaused: (habitId: string, date: string) => boolean,
+        start: string,
+        end: string,
+        today: string,
+        visit: (habit: Habit, date: string, done: boolean) => void
+    ): void {
+        if (start > end) return;
+
+        const dates = getDatesBetween(start, end);
+
+        for (const habit of habits) {
+            const isHabitDone = (date: string) => isDone(habit.id, date);
+
+            for (const date of dates) {
+                if (isPaused(habit.id, date) || !ScheduleService.isDue(habit, date, isHabitDone)) continue;
+
+                const done = isHabitDone(date);
+                // Today can still be completed
+                if (date === today && !done) continue;
+
+                visit(habit, date, done);
+            }
+        }
+    }
+
+    /**
+     * Completion rate of a set of habits between two dates (inclusive)
+     */
+    private static getRate(
+        habits: Habit[],
+        isDone: (habitId: string, date: string) => boolean,
+        isPaused: (habitId: string, date: string) => boolean,
+        start: string,
+        end: string,
+        today: string
+    ): CompletionRate {
+        let due = 0;
+        let done = 0;
+
+        this.forEachDue(habits, isDone, isPaused, start, end, today, (_habit, _date, isHabitDone) => {
+            due++;
+            if (isHabitDone) done++;
+        });
+
+        return toRate(due, done);
+    }
+
+    /**
+     * Compute every statistic shown on the dashboard
+     *
+     * @param habits - Habits to include (already filtered)
+     * @param logs - All logs
+     * @param pauses - All pauses
+     * @param year - Year for the per-habit, per-month and per-weekday figures
+     * @param today - Today's date "YYYY-MM-DD" (default: today)
+     */
+    static getSummary(
+        habits: Habit[],
+        logs: HabitLog[],
+        pauses: HabitPause[],
+        year: number,
+        today: string = getToday()
+    ): StatsSummary {
+        const isDone = HabitLogService.createDoneLookup(habits, logs);
+        const isHabitPaused = PauseService.createPauseLookup(pauses);
+        const isSkipped = HabitLogService.createSkipLookup(logs);
+        const isPaused = (habitId: string, date: string) =>
+            isHabitPaused(habitId, date) || isSkipped(habitId, date);
+
+        // Counters for the selected year, up to today
+        const yearEnd = `${year}-12-31` < today ? `${year}-12-31` : today;
+        const habitCounts = new Map(habits.map(h => [h.id, { due: 0, done: 0 }]));
+        const monthCounts = Array.from({ length: 12 }, () => ({ due: 0, done: 0 }));
+        const weekdayCounts = Array.from({ length: 7 }, () => ({ due: 0, done: 0 }));
+
+        this.forEachDue(habits, isDone, isPaused, `${year}-01-01`, yearEnd, today, (habit, date, done) => {
+            const counters = [
+                habitCounts.get(habit.id)!,
+                monthCounts[Number(date.slice(5, 7)) - 1],
+                weekdayCounts[getWeekday(date)],
+            ];
+
+            for (const counter of counters) {
+                counter.due++;
+                if (done) counter.done++;
+            }
+        });
+
+        const trends: RollingTrend[] = ROLLING_WINDOWS.map(days => {
+            const start = addDays(today, -(days - 1));
+            const current = this.getRate(habits, isDone, isPaused, start, today, today);
+            const previous = this.getRate(habits, isDone, isPaused, addDays(start, -days), addDays(start, -1), today);
+
+            return {
+                ...current,
+                days,
+                previousRate: previous.due > 0 ? previous.rate : null,
+            };
+        });
+
+        return {
+            byHabit: habits.map(habit => {
+                const { due, done } = habitCounts.get(habit.id)!;
+                return { habitId: habit.id, ...toRate(due, done) };
+            }),
+            byMonth: monthCounts.map(({ due, done }) => toRate(due, done)),
+            byWeekday: weekdayCounts.map(({ due, done }) => toRate(due, done)),
+            trends,
+        };
+    }
+}
+
+export default StatsService;
@@ -0,0 +1,283 @@
+import { getDatesBetween, getToday } from '../utils';
+import { HabitLogService } from './habitLog.service';
+import { ScheduleService } from './schedule.service';
+import { PauseService } from './pause.service';
+import type { Habit, HabitPause, StreakInfo, StreakRun, StreakSummary } from '../types';
+
+/**
+ * Outcome of a single day for a streak
+ * - done: extends the streak
+ * - missed: breaks the streak
+ * - neutral: neither (not due, or today still in progress)
+ */
+type DayOutcome = 'done' | 'missed' | 'neutral';
+
+/**
+ * Day outcomes of the mandatory streak of the last summary, with what they were computed from
+ */
+interface MandatoryDays {
+    habits: Habit[];
+    pauses: HabitPause[];
+    today: string;
+    /** Outcome per date, in chronological order */
+    outcomes: Map<string, DayOutcome>;
+}
+
+/**
+ * Lookups used to judge each day
+ */
+interface StreakLookups {
+    isDone: (habitId: string, date: string) => boolean;
+    /** Whether a habit was paused or skipped on a date */
+    isPaused: (habitId: string, date: string) => boolean;
+}
+
+/**
+ * Build streak runs from the chronological outcome of each day
+ */
+function buildStreak(days: Iterable<[string, DayOutcome]>): StreakInfo {
+    const history: StreakRun[] = [];
+    let run: StreakRun | null = null;
+
+    for (const [date, outcome] of days) {
+        if (outcome === 'done') {
+            if (run) {
+                run.end = date;
+                run.length++;
+            } else {
+                run = { start: date, end: date, length: 1 };
+                history.push(run);
+            }
+        } else if (outcome === 'missed') {
+            run = null;
+        }
+    }
+
+    return {
+        current: run?.length ?? 0,
+        longest: history.reduce((max, r) => Math.max(max, r.length), 0),
+        history,
+    };
+}
+
+/**
+ * Streak Service
+ * 
+ * Computes current and longest streaks from habit logs.
+ * Only days on which a habit is due count: unscheduled, paused and skipped days and
+ * days outside the habit's start/end dates neither extend nor break a streak.
+ * Today never breaks a streak, since it can still be completed.
+ * 
+ * After a log write, `updateSummary` only re-evaluates the streak of the changed habit
+ * and the changed days of the mandatory streak, so toggles stay fast with years of logs.
+ * 
+ * Follows Single Responsibility Principle - only computes streaks.
+ */
+export class StreakService {
+    /** Mandatory day outcomes of the last summary, reused by updateSummary */
+    private static mandatoryDays: MandatoryDays | null = null;
+
+    /**
+     * Compute the streak of a single habit
+     * 
+     * @param habit - Habit to evaluate
+     * @param isDone - Whether the habit was done on a given date
+     * @param today - Today's date "YYYY-MM-DD"
+     * @param isPaused - Whether the habit was paused or skipped on a given date
+     */
+    static getHabitStreak(
+        habit: Habit,
+        isDone: (date: string) => boolean,
+        today: string,
+        isPaused: (date: string) => boolean = () => false
+    ): StreakInfo {
+        if (habit.startDate > today) {
+            return buildStreak([]);
+        }
+
+        const days = getDatesBetween(habit.startDate, today).map((date): [string, DayOutcome] => {
+            if (isPaused(date) || !ScheduleService.isDue(habit, date, isDone)) {
+                return [date, 'neutral'];
+            }
+            if (isDone(date)) {
+                return [date, 'done'];
+            }
+            return [date, date === today ? 'neutral' : 'missed'];
+        });
+
+        return buildStreak(days);
+    }
+
+    /**
+     * Compute the combined streak of days on which every due mandatory habit was done
+     * 
+     * @param habits - All habits (optional ones are ignored)
+     * @param isDone - Whether a habit was done on a given date
+     * @param today - Today's date "YYYY-MM-DD"
+     * @param isPaused - Whether a habit was paused or skipped on a given date
+     */
+    static getMandatoryStreak(
+        habits: Habit[],
+        isDone: (habitId: string, date: string) => boolean,
+        today: string,
+        isPaused: (habitId: string, date: string) => boolean = () => false
+    ): StreakInfo {
+        return buildStreak(this.getMandatoryOutcomes(habits, { isDone, isPaused }, today));
+    }
+
+    /**
+     * Compute the streaks of every habit and the mandatory streak
+     * 
+     * @param habits - All habits
+     * @param pauses - All pauses
+     * @param today - Today's date "YYYY-MM-DD" (default: today)
+     */
+    static getSummary(
+        habits: Habit[],
+        pauses: HabitPause[],
+        today: string = getToday()
+    ): StreakSummary {
+        const lookups = this.createLookups(habits, pauses);
+
+        const byHabit: Record<string, StreakInfo> = {};
+        for (const habit of habits) {
+            byHabit[habit.id] = this.getStreakOf(habit, lookups, today);
+        }
+
+        const outcomes = this.getMandatoryOutcomes(habits, lookups, today);
+        this.mandatoryDays = { habits, pauses, today, outcomes };
+
+        return {
+            byHabit,
+            mandatory: buildStreak(outcomes),
+        };
+    }
+
+    /**
+     * Update a summary after the log of a habit changed on some dates:
+     * only that habit's streak and those days of the mandatory streak are re-evaluated.
+     * Falls back to a full `getSummary` when the habits, pauses or today
+     * differ from the ones of the last summary.
+     * 
+     * @param summary - Summary computed before the change
+     * @param habits - All habits
+     * @param pauses - All pauses
+     * @param habitId - Habit whose log changed
+     * @param dates - Changed dates (see HabitLogService.getAffectedDates)
+     * @param today - Today's date "YYYY-MM-DD" (default: today)
+     */
+    static updateSummary(
+        summary: StreakSummary,
+        habits: Habit[],
+        pauses: HabitPause[],
+        habitId: string,
+        dates: string[],
+        today: string = getToday()
+    ): StreakSummary {
+        const cached = this.mandatoryDays;
+
+        if (!cached || cached.habits !== habits || cached.pauses !== pauses || cached.today !== today) {
+            return this.getSummary(habits, pauses, today);
+        }
+
+        const habit = habits.find(h => h.id === habitId);
+        if (!habit) {
+            return summary;
+        }
+
+        const lookups = this.createLookups(habits, pauses);
+        const byHabit = { ...summary.byHabit, [habitId]: this.getStreakOf(habit, lookups, today) };
+
+        if (!habit.mandatory) {
+            return { byHabit, mandatory: summary.mandatory };
+        }
+
+        // Dates outside the map are before every mandatory habit started, or in the future
+        const mandatory = habits.filter(h => h.mandatory);
+        for (const date of dates) {
+            if (cached.outcomes.has(date)) {
+                cached.outcomes.set(date, this.getMandatoryOutcome(mandatory, date, lookups, today));
+            }
+        }
+
+        return { byHabit, mandatory: buildStreak(cached.outcomes) };
+    }
+
+    /**
+     * Lookups reading the indexed logs and the given pauses
+     */
+    private static createLookups(habits: Habit[], pauses: HabitPause[]): StreakLookups {
+        const habitsById = new Map(habits.map(h => [h.id, h]));
+        const isHabitPaused = PauseService.createPauseLookup(pauses);
+
+        return {
+            isDone: (habitId, date) => {
+                const habit = habitsById.get(habitId);
+                return habit !== undefined && HabitLogService.isLogDone(habit, HabitLogService.getLog(habitId, date));
+            },
+            isPaused: (habitId, date) => isHabitPaused(habitId, date) || HabitLogService.isSkipped(habitId, date),
+        };
+    }
+
+    /**
+     * Streak of a habit using shared lookups
+     */
+    private static getStreakOf(habit: Habit, { isDone, isPaused }: StreakLookups, today: string): StreakInfo {
+        return this.getHabitStreak(
+            habit,
+            date => isDone(habit.id, date),
+            today,
+            date => isPaused(habit.id, date)
+        );
+    }
+
+    /**
+     * Outcome of every day of the mandatory streak, from the first mandatory start date to today
+     */
+    private static getMandatoryOutcomes(
+        habits: Habit[],
+        lookups: StreakLookups,
+        today: string
+    ): Map<string, DayOutcome> {
+        const mandatory = habits.filter(h => h.mandatory);
+        const outcomes = new Map<string, DayOutcome>();
+
+        if (mandatory.length === 0) {
+            return outcomes;
+        }
+
+        const firstStart = mandatory.reduce((min, h) => (h.startDate < min ? h.startDate : min), today);
+
+        for (const date of getDatesBetween(firstStart, today)) {
+            outcomes.set(date, this.getMandatoryOutcome(mandatory, date, lookups, today));
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Outcome of a day for the mandatory streak
+     * 
+     * @param mandatory - The mandatory habits
+     */
+    private static getMandatoryOutcome(
+        mandatory: Habit[],
+        date: string,
+        { isDone, isPaused }: StreakLookups,
+        today: string
+    ): DayOutcome {
+        const due = mandatory.filter(h =>
+            !isPaused(h.id, date) && ScheduleService.isDue(h, date, d => isDone(h.id, d))
+        );
+
+        if (due.length === 0) {
+            return 'neutral';
+        }
+        if (due.every(h => isDone(h.id, date))) {
+            return 'done';
+        }
+        return date === today ? 'neutral' : 'missed';
+    }
+}
+
+export default StreakService;
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HabitDatabaseService } from './habitDatabase.service';
+import { SyncService } from './sync.service';
+import type { UnversionedAppState } from './migration.service';
+import type { Habit, HabitLog, SyncRequest, SyncResponse } from '../types';
+
+const habit: Habit = {
+    id: 'habit-1',
+    name: 'Leer',
+    color: '#4caf50',
+    mandatory: false,
+    createdAt: '2026-01-01T08:00:00.000Z',
+    startDate: '2026-01-01',
+    updatedAt: '2026-01-01T08:00:00.000Z',
+};
+
+/**
+ * In-memory stand-ins for the database, localStorage and the server
+ */
+let stored: UnversionedAppState;
+let requests: SyncRequest[];
+let responses: SyncResponse[];
+
+function createStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: index => [...items.keys()][index] ?? null,
+        removeItem: key => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, value); },
+    };
+}
+
+function storeLocally(log: HabitLog): void {
+    stored.logs = [...stored.logs.filter(l => l.habitId !== log.habitId || l.date !== log.date), log];
+}
+
+beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+
+    stored = { schemaVersion: 3, habits: [habit], logs: [], pauses: [], notes: [], settings: { currentYear: 2026 } };
+    requests = [];
+    responses = [];
+
+    vi.stubGlobal('localStorage', createStorage());
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(init.body as string) as SyncRequest);
+        const body = responses.shift() ?? { cursor: requests.length, habits: [], logs: [] };
+        return new Response(JSON.stringify(body));
+    }));
+
+    vi.spyOn(HabitDatabaseService, 'loadState').mockImplementation(async () => stored);
+    vi.spyOn(HabitDatabaseService, 'putSyncedChanges').mockImplementation(async (habits, logs) => {
+        stored.habits = [...stored.habits.filter(h => !habits.some(r => r.id === h.id)), ...habits];
+        logs.forEach(storeLocally);
+    });
+
+    SyncService.setConfig({ enabled: true, endpoint: 'https://sync.example' });
+});
+
+describe('SyncService.sync', () => {
+    it('pushes everything on the first round and nothing new on the next', async () => {
+        storeLocally({ habitId: habit.id, date: '2026-03-01', completed: true, updatedAt: '2026-03-01T09:00:00.000Z' });
+
+        await SyncService.sync();
+        await SyncService.sync();
+
+        expect(requests[0].habits).toHaveLength(1);
+        expect(requests[0].logs).toHaveLength(1);
+        expect(requests[1].habits).toHaveLength(0);
+        expect(requests[1].logs).toHaveLength(0);
+        expect(requests[1].cursor).toBe(1);
+    });
+
+    it('never pushes back records pulled from a device whose clock is ahead', async () => {
+        vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00.000Z'), toFake: ['Date'] });
+        await SyncService.sync();
+
+        // The other device's clock is a day ahead
+        const remoteLog: HabitLog = { habitId: habit.id, date: '2026-02-28', completed: true, updatedAt: '2026-03-02T10:00:00.000Z' };
+        responses.push({ cursor: 5, habits: [], logs: [remoteLog] });
+        await SyncService.sync();
+
+        // A local edit stamped before the remote clock
+        vi.setSystemTime(new Date('2026-03-01T10:05:00.000Z'));
+        const localLog: HabitLog = { habitId: habit.id, date: '2026-03-01', completed: true, updatedAt: new Date().toISOString() };
+        storeLocally(localLog);
+        expect(await SyncService.countPendingChanges()).toBe(1);
+
+        vi.setSystemTime(new Date('2026-03-01T10:10:00.000Z'));
+        await SyncService.sync();
+
+        expect(requests[2].logs).toEqual([localLog]);
+        expect(await SyncService.countPendingChanges()).toBe(0);
+    });
+
+    it('pushes a pulled record again once it is changed locally', async () => {
+        vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00.000Z'), toFake: ['Date'] });
+        const remoteLog: HabitLog = { habitId: habit.id, date: '2026-02-28', completed: true, updatedAt: '2026-03-01T09:59:00.000Z' };
+        responses.push({ cursor: 1, habits: [], logs: [remoteLog] });
+        await SyncService.sync();
+
+        vi.setSystemTime(new Date('2026-03-01T10:01:00.000Z'));
+        storeLocally({ ...remoteLog, completed: false, updatedAt: new Date().toISOString() });
+        await SyncService.sync();
+
+        expect(requests[1].logs).toEqual([{ ...remoteLog, completed: false, updatedAt: '2026-03-01T10:01:00.000Z' }]);
+    });
+
+    it('keeps the cursor when the pulled changes cannot be stored', async () => {
+        vi.mocked(HabitDatabaseService.putSyncedChanges).mockRejectedValueOnce(new Error('QuotaExceededError'));
+        responses.push({
+            cursor: 7,
+            habits: [],
+            logs: [{ habitId: habit.id, date: '2026-02-28', completed: true, updatedAt: '2026-03-01T09:00:00.000Z' }],
+        });
+
+        await expect(SyncService.sync()).rejects.toThrow('QuotaExceededError');
+        await SyncService.sync();
+
+        expect(requests[1].cursor).toBe(0);
+    });
+
+    it('reads the database once per round', async () => {
+        await SyncService.sync();
+
+        expect(HabitDatabaseService.loadState).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,248 @@
+import { StorageService } from './storage.service';
+import { HabitDatabaseService } from './habitDatabase.service';
+import type { Habit, HabitLog, SyncChanges, SyncConfig, SyncRequest, SyncResponse } from '../types';
+import type { UnversionedAppState } from './migration.service';
+
+/**
+ * localStorage keys of the sync settings and progress
+ */
+const CONFIG_KEY = 'habit-tracker-sync-config';
+const META_KEY = 'habit-tracker-sync-meta';
+
+/**
+ * How far before the start of a round local changes stay pending: covers writes still
+ * in flight when the round read the database and small adjustments of the local clock.
+ * Pushing a change twice is harmless, the server keeps the most recent one.
+ */
+const PENDING_OVERLAP_MS = 60 * 1000;
+
+/**
+ * Sync progress, stored per device
+ */
+interface SyncMeta {
+    /** Server cursor of the last pull */
+    cursor: number;
+    /**
+     * Local clock at the start of the last successful round, minus PENDING_OVERLAP_MS.
+     * Local changes stamped since then are pending; null = everything is.
+     */
+    pendingSince: string | null;
+    /**
+     * updatedAt of the records pulled from the server and stamped after pendingSince,
+     * by record key. Those stamps come from another device's clock: the records
+     * are not local changes and must not be pushed back.
+     */
+    pulled: Record<string, string>;
+    /** End of the last successful round (ISO timestamp) */
+    lastSyncedAt: string | null;
+}
+
+const DEFAULT_CONFIG: SyncConfig = { enabled: false, endpoint: '' };
+const DEFAULT_META: SyncMeta = { cursor: 0, pendingSince: null, pulled: {}, lastSyncedAt: null };
+
+/**
+ * Whether a remote record should replace the local one (last writer wins).
+ * Records without a timestamp predate sync and lose against any stamped change.
+ */
+function isNewer(remote: { updatedAt?: string }, local: { updatedAt?: string } | undefined): boolean {
+    return !local || (remote.updatedAt ?? '') > (local.updatedAt ?? '');
+}
+
+/**
+ * Keys of habits and logs in the sync progress (see SyncMeta.pulled)
+ */
+function habitKey(habit: Habit): string {
+    return `habit|${habit.id}`;
+}
+
+function logKey(log: HabitLog): string {
+    return `log|${log.habitId}|${log.date}`;
+}
+
+/**
+ * Whether a local record changed since the last round and wasn't pulled from the server
+ */
+function isPending(key: string, record: { updatedAt?: string }, meta: SyncMeta): boolean {
+    if (meta.pendingSince === null) return true;
+
+    const updatedAt = record.updatedAt ?? '';
+    return updatedAt >= meta.pendingSince && meta.pulled[key] !== updatedAt;
+}
+
+/**
+ * Sync Service
+ *
+ * Optional sync of habits and logs with a self-hosted server (see server/index.js).
+ * Each round pushes the local changes since the previous round and pulls the
+ * changes other devices pushed since the previous pull, in a single POST /sync.
+ * Conflicts are resolved per habit and per (habitId, date) log: the most recent
+ * updatedAt wins, on the server and on every device.
+ *
+ * Works on IndexedDB directly, so changes made offline stay queued across reloads.
+ * Pauses, notes and habit deletions are not synced.
+ *
+ * Follows Single Responsibility Principle - only handles the remote sync.
+ */
+export class SyncService {
+    private static listeners = new Set<() => void>();
+
+    /**
+     * Get the sync settings
+     */
+    static getConfig(): SyncConfig {
+        return { ...DEFAULT_CONFIG, ...StorageService.get<SyncConfig>(CONFIG_KEY) };
+    }
+
+    /**
+     * Save the sync settings. Pointing to another server starts over from scratch.
+     */
+    static setConfig(config: SyncConfig): void {
+        const endpoint = config.endpoint.trim().replace(/\/+$/, '');
+
+        if (endpoint !== this.getConfig().endpoint) {
+            StorageService.set(META_KEY, DEFAULT_META);
+        }
+
+        StorageService.set(CONFIG_KEY, { ...config, endpoint, token: config.token?.trim() || undefined });
+    }
+
+    /**
+     * Get the sync progress
+     */
+    private static getMeta(): SyncMeta {
+        return { ...DEFAULT_META, ...StorageService.get<SyncMeta>(META_KEY) };
+    }
+
+    /**
+     * End of the last successful round
+     */
+    static getLastSyncedAt(): Date | null {
+        const { lastSyncedAt } = this.getMeta();
+        return lastSyncedAt ? new Date(lastSyncedAt) : null;
+    }
+
+    /**
+     * Local habits and logs of a stored state changed since the last round
+     */
+    private static getPendingChanges(state: UnversionedAppState, meta: SyncMeta): SyncChanges {
+        return {
+            habits: state.habits.filter(habit => isPending(habitKey(habit), habit, meta)),
+            logs: state.logs.filter(log => isPending(logKey(log), log, meta)),
+        };
+    }
+
+    /**
+     * Number of local changes waiting to be pushed
+     */
+    static async countPendingChanges(): Promise<number> {
+        const { habits, logs } = this.getPendingChanges(await HabitDatabaseService.loadState(), this.getMeta());
+        return habits.length + logs.length;
+    }
+
+    /**
+     * Run one sync round. The database is read once; the cursor only moves
+     * once the remote changes are stored.
+     * Local changes made while the round runs are pushed on the next one.
+     *
+     * @returns Number of remote changes applied locally
+     * @throws Error if sync is not configured, the server fails or the remote changes can't be stored
+     */
+    static async sync(): Promise<number> {
+        const config = this.getConfig();
+        if (!config.enabled || !config.endpoint) {
+            throw new Error('La sincronización no está configurada');
+        }
+
+        const meta = this.getMeta();
+        // Read before the database: changes stamped later are left for the next round
+        const startedAt = Date.now();
+        const local = await HabitDatabaseService.loadState();
+        const body: SyncRequest = { cursor: meta.cursor, ...this.getPendingChanges(local, meta) };
+
+        const response = await fetch(`${config.endpoint}/sync`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.token && { Authorization: `Bearer ${config.token}` }),
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            throw new Error(`El servidor respondió ${response.status}`);
+        }
+
+        const remote = await response.json() as SyncResponse;
+        const applied = await this.applyRemoteChanges(remote, local);
+
+        // Everything stamped before the round is on the server now; of the records
+        // just pulled, only the ones that could still look pending are remembered
+        const pendingSince = new Date(startedAt - PENDING_OVERLAP_MS).toISOString();
+        const pulled: Record<string, string> = {};
+        for (const [key, updatedAt] of Object.entries({ ...meta.pulled, ...applied })) {
+            if (updatedAt >= pendingSince) {
+                pulled[key] = updatedAt;
+            }
+        }
+
+        StorageService.set<SyncMeta>(META_KEY, {
+            cursor: remote.cursor,
+            pendingSince,
+            pulled,
+            lastSyncedAt: new Date().toISOString(),
+        });
+
+        const count = Object.keys(applied).length;
+        if (count > 0) {
+            this.listeners.forEach(listener => listener());
+        }
+
+        return count;
+    }
+
+    /**
+     * Store the remote habits and logs that are newer than the local ones
+     *
+     * @param remote - Changes pulled from the server
+     * @param local - Stored state read at the start of the round
+     * @returns updatedAt of the records applied, by record key
+     * @throws The IndexedDB error if the records can't be stored
+     */
+    private static async applyRemoteChanges(
+        remote: SyncChanges,
+        local: UnversionedAppState
+    ): Promise<Record<string, string>> {
+        const localHabits = new Map(local.habits.map(h => [habitKey(h), h]));
+        const localLogs = new Map(local.logs.map(l => [logKey(l), l]));
+
+        const habits: Habit[] = remote.habits.filter(h => isNewer(h, localHabits.get(habitKey(h))));
+        const logs: HabitLog[] = remote.logs.filter(l => isNewer(l, localLogs.get(logKey(l))));
+
+        // Still compared with the stored records inside the transaction,
+        // so a local change made since the round started is kept
+        await HabitDatabaseService.putSyncedChanges(habits, logs);
+
+        const applied: Record<string, string> = {};
+        for (const habit of habits) {
+            applied[habitKey(habit)] = habit.updatedAt ?? '';
+        }
+        for (const log of logs) {
+            applied[logKey(log)] = log.updatedAt ?? '';
+        }
+        return applied;
+    }
+
+    /**
+     * Listen to remote changes applied locally (to reload the in-memory state)
+     *
+     * @returns Function that stops listening
+     */
+    static subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export default SyncService;
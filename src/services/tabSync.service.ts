@@ -0,0 +1,85 @@
+import { generateId } from '../utils';
+import { StorageService } from './storage.service';
+import type { TabSyncMessage } from '../types';
+
+/**
+ * BroadcastChannel name shared by every tab of the app
+ */
+const CHANNEL_NAME = 'habit-tracker-sync';
+
+/**
+ * localStorage key used to signal writes where BroadcastChannel is missing
+ */
+const STORAGE_KEY = 'habit-tracker-sync';
+
+/**
+ * Tab Sync Service
+ *
+ * Tells the other open tabs (and the installed PWA window) that this tab
+ * committed a write, so they can reload their in-memory state.
+ * Uses a BroadcastChannel, falling back to localStorage "storage" events.
+ *
+ * Follows Single Responsibility Principle - only handles cross-tab messages.
+ */
+export class TabSyncService {
+    /** Identifies this tab, so its own messages can be told apart */
+    static readonly tabId = generateId();
+
+    private static channel: BroadcastChannel | null = null;
+
+    /**
+     * Shared channel, or null where BroadcastChannel is unavailable
+     */
+    private static getChannel(): BroadcastChannel | null {
+        if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL_NAME);
+        }
+        return this.channel;
+    }
+
+    /**
+     * Announce a committed write to the other tabs
+     *
+     * @param stores - Object stores that changed
+     */
+    static notify(stores: string[]): void {
+        const message: TabSyncMessage = { tabId: this.tabId, stores, at: Date.now() };
+        const channel = this.getChannel();
+
+        if (channel) {
+            channel.postMessage(message);
+        } else if (typeof localStorage !== 'undefined') {
+            // A changing value fires "storage" in every other tab
+            StorageService.set(STORAGE_KEY, message);
+        }
+    }
+
+    /**
+     * Listen to writes committed by other tabs
+     *
+     * @returns Function that stops listening
+     */
+    static subscribe(listener: (message: TabSyncMessage) => void): () => void {
+        const channel = this.getChannel();
+
+        if (channel) {
+            const handleMessage = (event: MessageEvent<TabSyncMessage>) => listener(event.data);
+            channel.addEventListener('message', handleMessage);
+            return () => channel.removeEventListener('message', handleMessage);
+        }
+
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key !== STORAGE_KEY || !event.newValue) return;
+
+            const message = JSON.parse(event.newValue) as TabSyncMessage;
+            if (message.tabId !== this.tabId) {
+                listener(message);
+            }
+        };
+
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }
+}
+
+export default TabSyncService;
@@ -0,0 +1,56 @@
+/**
+ * Backup Types
+ * 
+ * Type definitions for exporting and importing the full app state.
+ */
+
+import type { Habit, HabitAppState } from './habit.types';
+
+/**
+ * JSON backup file contents
+ */
+export interface HabitBackup {
+    /** Format marker used to recognise backup files */
+    format: 'habit-tracker-backup';
+    /** Version of the backup envelope (not of the app state) */
+    backupVersion: number;
+    /** ISO timestamp of when the backup was created */
+    exportedAt: string;
+    /** Full app state, at the schema version of the app that exported it */
+    state: HabitAppState;
+}
+
+/**
+ * How an imported backup is applied
+ * - merge: add the backup on top of the current data
+ * - replace: discard the current data and use the backup
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Differences between the current data and a backup, shown before importing
+ */
+export interface ImportSummary {
+    /** Habits in the backup that don't exist yet */
+    newHabits: Habit[];
+    /** Habits present in both (matched by ID) */
+    existingHabits: Habit[];
+    /** Logs in the backup for habit/date pairs without a current log */
+    newLogs: number;
+    /** Logs present in both that differ in completion, logged amount or skip */
+    conflictingLogs: number;
+    /** Total number of logs in the backup */
+    totalLogs: number;
+}
+
+/**
+ * A parsed and validated backup, ready to be imported
+ */
+export interface ImportPreview {
+    /** Backup state, migrated to the current schema version */
+    state: HabitAppState;
+    /** When the backup was created */
+    exportedAt: string;
+    /** Differences with the current data */
+    summary: ImportSummary;
+}
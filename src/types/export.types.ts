@@ -0,0 +1,24 @@
+/**
+ * Export Types
+ * 
+ * Type definitions for spreadsheet (CSV) exports of habit logs.
+ */
+
+/**
+ * CSV layout
+ * - long: one row per log (date, habit, mandatory, completed)
+ * - wide: one row per date, one column per habit
+ */
+export type CsvLayout = 'long' | 'wide';
+
+/**
+ * Options for a CSV export
+ */
+export interface CsvExportOptions {
+    /** Year to export */
+    year: number;
+    /** Row layout */
+    layout: CsvLayout;
+    /** Only export these habits (empty = all habits) */
+    habitIds: string[];
+}
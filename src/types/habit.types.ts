@@ -4,6 +4,8 @@
  * Type definitions for the habit tracking functionality.
  */
 
+import type { DayNote } from './note.types';
+
 /**
  * Habit entity
  * Represents a trackable habit
@@ -21,6 +23,53 @@ export interface Habit {
     createdAt: string;
     /** Start date for tracking in "YYYY-MM-DD" format - days before this won't count as missed */
     startDate: string;
+    /** Last tracked date in "YYYY-MM-DD" format - days after this won't count (set when archiving) */
+    endDate?: string;
+    /** Archive timestamp - archived habits keep their history but are hidden from daily logging */
+    archivedAt?: string;
+    /** Numeric target - when set, logs record a value instead of a simple check */
+    target?: HabitTarget;
+    /** When the habit is due - undefined means every day */
+    schedule?: HabitSchedule;
+    /** Daily reminder time "HH:MM" - only sent on days the habit is due and not done yet */
+    reminder?: string;
+    /** Last change timestamp - the most recent change wins when devices sync */
+    updatedAt?: string;
+}
+
+/**
+ * Habit schedule
+ * - daily: due every day
+ * - weekdays: due on specific weekdays (0 = Monday ... 6 = Sunday)
+ * - weeklyQuota / monthlyQuota: done N times per week (Mon-Sun) / calendar month, any days
+ * - interval: due every N days counting from the start date
+ */
+export type HabitSchedule =
+    | { type: 'daily' }
+    | { type: 'weekdays'; days: number[] }
+    | { type: 'weeklyQuota'; times: number }
+    | { type: 'monthlyQuota'; times: number }
+    | { type: 'interval'; every: number };
+
+export type HabitScheduleType = HabitSchedule['type'];
+
+/**
+ * How a logged value is compared with the target
+ * - atLeast: done when value >= target (e.g. "read 30 pages")
+ * - atMost: done when value <= target (e.g. "max 2 coffees")
+ */
+export type TargetComparison = 'atLeast' | 'atMost';
+
+/**
+ * Numeric target of a quantitative habit
+ */
+export interface HabitTarget {
+    /** Target amount */
+    value: number;
+    /** Unit label (e.g. "vasos", "páginas") */
+    unit: string;
+    /** Comparison used to decide whether the target is met */
+    comparison: TargetComparison;
 }
 
 /**
@@ -32,10 +81,40 @@ export interface HabitLog {
     habitId: string;
     /** Date in "YYYY-MM-DD" format */
     date: string;
-    /** Whether the habit was completed */
+    /** Whether the habit was completed (for numeric habits: whether the target was met) */
     completed: boolean;
+    /** Logged amount for numeric habits */
+    value?: number;
+    /** Skipped/excused - the day is neither done nor missed (completed is false) */
+    skipped?: boolean;
+    /** Optional reason for skipping */
+    skipReason?: string;
+    /** Last change timestamp - the most recent change wins when tabs or devices write the same log */
+    updatedAt?: string;
 }
 
+/**
+ * Date range during which habits are not due (sickness, holidays...)
+ * Paused days neither count as missed nor break streaks.
+ */
+export interface HabitPause {
+    /** Unique identifier */
+    id: string;
+    /** First paused date "YYYY-MM-DD" */
+    start: string;
+    /** Last paused date "YYYY-MM-DD" (inclusive) */
+    end: string;
+    /** Paused habit - undefined pauses every habit */
+    habitId?: string;
+    /** Optional reason shown in the pause list */
+    reason?: string;
+}
+
+/**
+ * Data for creating a pause
+ */
+export type CreatePauseData = Omit<HabitPause, 'id'>;
+
 /**
  * Data for creating a new habit
  */
@@ -44,6 +123,9 @@ export interface CreateHabitData {
     color: string;
     mandatory: boolean;
     startDate?: string;
+    target?: HabitTarget;
+    schedule?: HabitSchedule;
+    reminder?: string;
 }
 
 /**
@@ -54,14 +136,25 @@ export interface UpdateHabitData {
     color?: string;
     mandatory?: boolean;
     startDate?: string;
+    /** Set to undefined to turn a numeric habit back into a yes/no habit */
+    target?: HabitTarget;
+    schedule?: HabitSchedule;
+    /** Set to undefined to turn the reminder off */
+    reminder?: string;
+    endDate?: string;
+    archivedAt?: string;
 }
 
 /**
- * App state stored in localStorage
+ * App state persisted in IndexedDB
  */
 export interface HabitAppState {
+    /** Version of the state shape, upgraded by MigrationService on load */
+    schemaVersion: number;
     habits: Habit[];
     logs: HabitLog[];
+    pauses: HabitPause[];
+    notes: DayNote[];
     settings: HabitSettings;
 }
 
@@ -97,10 +190,22 @@ export interface DayStatus {
     optionalTotal: number;
     /** List of completed habit colors for visual display */
     completedColors: string[];
+    /** Overall progress from 0 to 1, counting partial progress of numeric habits */
+    progress: number;
+    /** Whether every habit that would be due is paused (vacation mode) */
+    isPaused?: boolean;
     /** Whether this status is from a filtered view (celebration effect should be disabled) */
     isFiltered?: boolean;
 }
 
+/**
+ * Range of dates, both ends included ("YYYY-MM-DD")
+ */
+export interface DateRange {
+    start: string;
+    end: string;
+}
+
 /**
  * Predefined colors for habits
  */
@@ -0,0 +1,67 @@
+/**
+ * History Import Types
+ * 
+ * Type definitions for importing history from other habit trackers.
+ */
+
+/**
+ * Supported source formats
+ * - loop: Loop Habit Tracker "Checkmarks.csv" (Date column + one column per habit)
+ * - generic: one row per entry with date, habit and value columns
+ */
+export type HistorySourceFormat = 'loop' | 'generic';
+
+/**
+ * A single completion entry read from the source file
+ */
+export interface HistoryEntry {
+    /** Date in "YYYY-MM-DD" format */
+    date: string;
+    /** Habit name as it appears in the source */
+    sourceHabit: string;
+    /** Whether the habit was completed */
+    completed: boolean;
+    /** Logged amount, for numeric habits */
+    value?: number;
+}
+
+/**
+ * Column indexes for the generic format
+ */
+export interface GenericColumnMapping {
+    date: number;
+    habit: number;
+    value: number;
+}
+
+/**
+ * A habit found in the source file
+ */
+export interface SourceHabit {
+    /** Name in the source */
+    name: string;
+    /** Number of entries for this habit */
+    entries: number;
+    /** Earliest date with a completed entry, undefined if none was completed */
+    firstDate?: string;
+}
+
+/**
+ * Where the entries of a source habit go
+ */
+export type HabitMappingTarget =
+    | { type: 'existing'; habitId: string }
+    | { type: 'new' }
+    | { type: 'skip' };
+
+/**
+ * Result of a history import
+ */
+export interface HistoryImportResult {
+    /** Number of habits created */
+    habitsCreated: number;
+    /** Number of logs written */
+    logsWritten: number;
+    /** Number of "not done" entries skipped because the day already had a log */
+    logsKept: number;
+}
@@ -8,6 +8,17 @@
 // Re-export domain-specific types
 export * from './pwa.types';
 export * from './habit.types';
+export * from './backup.types';
+export * from './export.types';
+export * from './historyImport.types';
+export * from './streak.types';
+export * from './stats.types';
+export * from './view.types';
+export * from './undo.types';
+export * from './note.types';
+export * from './reminder.types';
+export * from './tabSync.types';
+export * from './sync.types';
 
 /**
  * Generic API Response wrapper
@@ -0,0 +1,50 @@
+/**
+ * Note Types
+ * 
+ * Type definitions for per-day notes and the mood journal.
+ */
+
+/**
+ * Mood/energy rating from 1 (very bad) to 5 (very good)
+ */
+export type MoodRating = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Free-text note and optional mood attached to a calendar day
+ */
+export interface DayNote {
+    /** Date string "YYYY-MM-DD" (one note per day) */
+    date: string;
+    /** Note text */
+    text: string;
+    /** Optional mood/energy rating */
+    mood?: MoodRating;
+    /** ISO timestamp of the last change */
+    updatedAt: string;
+}
+
+/**
+ * Average mandatory-habit completion for the days with a given mood
+ */
+export interface MoodBucket {
+    mood: MoodRating;
+    /** Days rated with this mood that had mandatory habits due */
+    days: number;
+    /** Average share of due mandatory habits completed (0-1), null without days */
+    mandatoryRate: number | null;
+}
+
+/**
+ * Relation between mood and mandatory-habit completion
+ */
+export interface MoodSummary {
+    /** One bucket per mood rating, 1 to 5 */
+    buckets: MoodBucket[];
+    /** Pearson correlation between mood and completion (-1 to 1), null with too few days */
+    correlation: number | null;
+}
+
+/**
+ * Emoji shown for each mood rating (index 0 = mood 1)
+ */
+export const MOOD_EMOJIS = ['😞', '😕', '😐', '🙂', '😄'] as const;
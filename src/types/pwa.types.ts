@@ -5,6 +5,8 @@
  * network status, installation state, and service worker events.
  */
 
+import type { SyncConfig, SyncStatus } from './sync.types';
+
 /**
  * Network connection status
  */
@@ -22,6 +24,14 @@ export interface NetworkContextValue {
     isOffline: boolean;
     /** Timestamp of last status change */
     lastChanged: Date | null;
+    /** Status of the optional server sync */
+    sync: SyncStatus;
+    /** Current sync settings */
+    syncConfig: SyncConfig;
+    /** Save the sync settings (starts syncing when enabled) */
+    setSyncConfig: (config: SyncConfig) => void;
+    /** Run a sync round now */
+    syncNow: () => Promise<void>;
 }
 
 /**
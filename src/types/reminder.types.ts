@@ -0,0 +1,41 @@
+/**
+ * Reminder Types
+ * 
+ * Type definitions for local habit reminder notifications.
+ */
+
+/**
+ * A reminder notification planned for today
+ */
+export interface ReminderSchedule {
+    /** Reminded habit */
+    habitId: string;
+    /** Day the reminder is for "YYYY-MM-DD" - "Hecho" logs this day, even when tapped after midnight */
+    date: string;
+    /** Notification tag - one per habit and day, so repeated deliveries replace each other */
+    tag: string;
+    /** Notification title */
+    title: string;
+    /** Notification body */
+    body: string;
+    /** Delivery time (ms since epoch) */
+    at: number;
+    /** Page opened when the notification is tapped (quick-log of the habit) */
+    url: string;
+}
+
+/**
+ * Messages exchanged between the page and the service worker
+ * - SCHEDULE_REMINDERS: page → worker, replaces today's reminders
+ * - OPEN_QUICK_LOG: worker → page, a notification was tapped
+ * - LOGS_CHANGED: worker → page, a notification action wrote a log (reload the data)
+ */
+export type ReminderMessage =
+    | { type: 'SCHEDULE_REMINDERS'; reminders: ReminderSchedule[] }
+    | { type: 'OPEN_QUICK_LOG'; habitId: string }
+    | { type: 'LOGS_CHANGED'; habitId: string; date: string };
+
+/**
+ * Notification permission, or 'unsupported' when the browser has no Notifications API
+ */
+export type ReminderPermission = NotificationPermission | 'unsupported';
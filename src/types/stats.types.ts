@@ -0,0 +1,48 @@
+/**
+ * Stats Types
+ * 
+ * Type definitions for the statistics dashboard.
+ */
+
+/**
+ * Completions against due days for any grouping (habit, month, weekday, window)
+ */
+export interface CompletionRate {
+    /** Days on which the habit(s) were due */
+    due: number;
+    /** Due days that were completed */
+    done: number;
+    /** done / due, from 0 to 1 (0 when nothing was due) */
+    rate: number;
+}
+
+/**
+ * Completion rate of a single habit
+ */
+export interface HabitCompletionRate extends CompletionRate {
+    habitId: string;
+}
+
+/**
+ * Rolling completion rate over the last N days, compared with the N days before
+ */
+export interface RollingTrend extends CompletionRate {
+    /** Window length in days */
+    days: number;
+    /** Rate of the previous window of the same length, null if nothing was due */
+    previousRate: number | null;
+}
+
+/**
+ * Everything shown on the statistics dashboard
+ */
+export interface StatsSummary {
+    /** Per habit, for the selected year */
+    byHabit: HabitCompletionRate[];
+    /** Per month of the selected year (index 0 = January) */
+    byMonth: CompletionRate[];
+    /** Per weekday over the selected year (index 0 = Monday ... 6 = Sunday) */
+    byWeekday: CompletionRate[];
+    /** Rolling windows ending today */
+    trends: RollingTrend[];
+}
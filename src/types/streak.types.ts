@@ -0,0 +1,39 @@
+/**
+ * Streak Types
+ * 
+ * Type definitions for habit streaks.
+ */
+
+/**
+ * An uninterrupted run of completions
+ */
+export interface StreakRun {
+    /** First date of the run "YYYY-MM-DD" */
+    start: string;
+    /** Last date of the run "YYYY-MM-DD" */
+    end: string;
+    /** Number of completed due days in the run */
+    length: number;
+}
+
+/**
+ * Streak information for a habit (or for all mandatory habits)
+ */
+export interface StreakInfo {
+    /** Length of the run still alive today */
+    current: number;
+    /** Length of the longest run ever */
+    longest: number;
+    /** All runs, oldest first */
+    history: StreakRun[];
+}
+
+/**
+ * Streaks of every habit plus the combined mandatory streak
+ */
+export interface StreakSummary {
+    /** Streak per habit ID */
+    byHabit: Record<string, StreakInfo>;
+    /** Days on which every due mandatory habit was done */
+    mandatory: StreakInfo;
+}
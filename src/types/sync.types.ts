@@ -0,0 +1,67 @@
+/**
+ * Sync Types
+ * 
+ * Type definitions for the optional sync with a self-hosted backend
+ * (reference server in server/index.js).
+ */
+
+import type { Habit, HabitLog } from './habit.types';
+
+/**
+ * Sync settings, stored per device
+ */
+export interface SyncConfig {
+    /** Whether sync is turned on */
+    enabled: boolean;
+    /** Base URL of the sync server (e.g. "http://localhost:8787") */
+    endpoint: string;
+    /** Optional shared secret sent as a bearer token */
+    token?: string;
+}
+
+/**
+ * Habits and logs exchanged with the server
+ */
+export interface SyncChanges {
+    habits: Habit[];
+    logs: HabitLog[];
+}
+
+/**
+ * Body of POST /sync: local changes plus the position of the last pull
+ */
+export interface SyncRequest extends SyncChanges {
+    /** Server cursor returned by the previous sync (0 = everything) */
+    cursor: number;
+}
+
+/**
+ * Response of POST /sync: changes from other devices since the cursor
+ */
+export interface SyncResponse extends SyncChanges {
+    /** Cursor to send on the next sync */
+    cursor: number;
+}
+
+/**
+ * Sync state shown in the connection status
+ * - disabled: sync is turned off
+ * - idle: everything is up to date (or waiting for the next round)
+ * - syncing: a round is in progress
+ * - offline: changes are queued until the connection returns
+ * - error: the last round failed
+ */
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+/**
+ * Current sync status
+ */
+export interface SyncStatus {
+    state: SyncState;
+    /** Local habits and logs not pushed yet */
+    pendingChanges: number;
+    /** End of the last successful round */
+    lastSyncedAt: Date | null;
+    /** Message of the last error */
+    error: string | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Tab Sync Types
+ * 
+ * Type definitions for keeping several open tabs/windows of the app in sync.
+ */
+
+/**
+ * Announcement of a committed write, sent to the other tabs
+ */
+export interface TabSyncMessage {
+    /** Unique identifier of the sending tab */
+    tabId: string;
+    /** Object stores that changed */
+    stores: string[];
+    /** When the write was committed (ms since epoch) */
+    at: number;
+}
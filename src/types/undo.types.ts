@@ -0,0 +1,29 @@
+/**
+ * Undo Types
+ * 
+ * Type definitions for undo/redo of habit and log changes.
+ */
+
+/**
+ * A reversible change recorded in the undo stack
+ */
+export interface UndoEntry {
+    /** Human readable description, shown in the toast */
+    label: string;
+    /** Revert the change */
+    undo: () => void;
+    /** Apply the change again */
+    redo: () => void;
+}
+
+/**
+ * Latest history event, used to show the undo toast
+ * - done: a new change was recorded
+ * - undone / redone: a change was reverted / re-applied
+ */
+export interface UndoNotice {
+    /** Unique per event so repeated identical changes re-trigger the toast */
+    id: number;
+    kind: 'done' | 'undone' | 'redone';
+    label: string;
+}
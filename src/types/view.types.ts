@@ -0,0 +1,36 @@
+/**
+ * View Types
+ * 
+ * Type definitions for the main screen views.
+ */
+
+/**
+ * Main views selectable from the view switcher
+ * - today: quick check-in for today (default)
+ * - calendar: 12-month year calendar
+ * - month: single month with labelled completions
+ * - week: habits x 7 days grid for quick back-filling
+ * - stats: statistics dashboard
+ * - heatmap: one contribution heatmap per habit
+ */
+export type AppView = 'today' | 'calendar' | 'month' | 'week' | 'stats' | 'heatmap';
+
+/**
+ * Span shown by the calendar view
+ * - year: the selected calendar year, month by month
+ * - rolling: the last 365 days, across New Year
+ * - all: every year with data, as a compact heatmap
+ */
+export type CalendarRange = 'year' | 'rolling' | 'all';
+
+/**
+ * One cell of a heatmap strip
+ */
+export interface HeatmapCell {
+    /** Progress from 0 to 1, shown as one of four intensity levels */
+    progress: number;
+    /** Whether the day is paused (vacation mode) */
+    isPaused?: boolean;
+    /** Tooltip text */
+    title?: string;
+}
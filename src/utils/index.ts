@@ -4,6 +4,8 @@
  * Common utility functions used throughout the application.
  */
 
+export * from './localDate';
+
 /**
  * Generate a unique identifier
  * Uses crypto.randomUUID if available, otherwise falls back to a simple implementation
@@ -64,6 +66,104 @@ export function formatDate(date: Date, locale = 'en-US'): string {
     });
 }
 
+/**
+ * Escape a single CSV field (RFC 4180)
+ * 
+ * @param value - Field value
+ * @returns The value, quoted if it contains a separator, quote or line break
+ */
+export function escapeCsvField(value: string | number | boolean): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from rows of fields
+ * 
+ * @param rows - Rows, the first one usually being the header
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(rows: (string | number | boolean)[][]): string {
+    return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180)
+ * Handles quoted fields, escaped quotes, CRLF/LF line endings and a leading BOM.
+ * Empty lines are skipped.
+ * 
+ * @param text - CSV text
+ * @param separator - Field separator (default: ',')
+ * @returns Rows of raw string fields
+ */
+export function parseCsv(text: string, separator = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Trigger a browser download of in-memory content
+ * 
+ * @param content - File contents
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    URL.revokeObjectURL(url);
+}
+
 /**
  * Classnames utility
  * Joins class names filtering out falsy values
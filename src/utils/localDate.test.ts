@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    addDays,
+    diffDays,
+    getDatesBetween,
+    getMsUntilTomorrow,
+    getToday,
+    getWeekStart,
+    getWeekday,
+    parseLocalDate,
+    toLocalDateString,
+} from './localDate';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time zones the calendar arithmetic must not depend on:
+ * - Europe/Madrid, America/Los_Angeles: one-hour DST changes at night
+ * - America/Sao_Paulo: DST used to start at midnight, so some days had no 00:00
+ * - Australia/Lord_Howe: half-hour DST changes
+ * - Pacific/Kiritimati: UTC+14, no DST
+ * - UTC
+ */
+const TIME_ZONES = [
+    'Europe/Madrid',
+    'America/Los_Angeles',
+    'America/Sao_Paulo',
+    'Australia/Lord_Howe',
+    'Pacific/Kiritimati',
+    'UTC',
+];
+
+/**
+ * Run the tests of a block with the process in a time zone
+ */
+function inTimeZone(timeZone: string): void {
+    beforeAll(() => {
+        vi.stubEnv('TZ', timeZone);
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+    });
+}
+
+describe.each(TIME_ZONES)('localDate in %s', (timeZone) => {
+    inTimeZone(timeZone);
+
+    it('runs in the requested time zone', () => {
+        expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(timeZone);
+    });
+
+    it('takes today from the local clock', () => {
+        expect(getToday(new Date(2024, 2, 31, 0, 0))).toBe('2024-03-31');
+        expect(getToday(new Date(2024, 2, 31, 23, 59))).toBe('2024-03-31');
+        expect(getToday(new Date(2024, 9, 27, 12, 0))).toBe('2024-10-27');
+        expect(getToday(new Date(2024, 11, 31, 23, 59, 59))).toBe('2024-12-31');
+    });
+
+    it('round-trips dates through local midnight, DST change days included', () => {
+        const dates = [
+            '2018-11-04', // Sao Paulo: DST started at midnight
+            '2024-03-10', // Los Angeles: DST starts
+            '2024-03-31', // Madrid: DST starts
+            '2024-04-07', // Lord Howe: DST ends
+            '2024-10-06', // Lord Howe: DST starts
+            '2024-10-27', // Madrid: DST ends
+            '2024-11-03', // Los Angeles: DST ends
+        ];
+
+        for (const date of dates) {
+            expect(toLocalDateString(parseLocalDate(date))).toBe(date);
+        }
+    });
+
+    it('adds days across DST changes, month ends and leap days', () => {
+        expect(addDays('2024-03-30', 1)).toBe('2024-03-31');
+        expect(addDays('2024-03-31', 1)).toBe('2024-04-01');
+        expect(addDays('2024-10-26', 2)).toBe('2024-10-28');
+        expect(addDays('2024-11-03', -1)).toBe('2024-11-02');
+        expect(addDays('2018-11-03', 1)).toBe('2018-11-04');
+        expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+        expect(addDays('2023-02-28', 1)).toBe('2023-03-01');
+        expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+        expect(addDays('2025-01-01', -366)).toBe('2024-01-01');
+    });
+
+    it('counts days across DST changes', () => {
+        expect(diffDays('2024-03-30', '2024-04-01')).toBe(2);
+        expect(diffDays('2024-10-26', '2024-10-28')).toBe(2);
+        expect(diffDays('2024-03-01', '2024-11-30')).toBe(274);
+        expect(diffDays('2024-04-01', '2024-03-01')).toBe(-31);
+        expect(diffDays('2023-01-01', '2024-01-01')).toBe(365);
+        expect(diffDays('2024-01-01', '2025-01-01')).toBe(366);
+    });
+
+    it('lists every date once across DST changes', () => {
+        expect(getDatesBetween('2024-03-30', '2024-04-01')).toEqual(['2024-03-30', '2024-03-31', '2024-04-01']);
+        expect(getDatesBetween('2024-10-26', '2024-10-28')).toEqual(['2024-10-26', '2024-10-27', '2024-10-28']);
+        expect(getDatesBetween('2024-01-01', '2024-12-31')).toHaveLength(366);
+    });
+
+    it('starts weeks on Monday', () => {
+        expect(getWeekday('2024-04-01')).toBe(0);
+        expect(getWeekday('2024-03-31')).toBe(6);
+        expect(getWeekStart('2024-03-31')).toBe('2024-03-25');
+        expect(getWeekStart('2024-04-01')).toBe('2024-04-01');
+        expect(getWeekStart('2024-11-03')).toBe('2024-10-28');
+        expect(getWeekStart('2025-01-01')).toBe('2024-12-30');
+    });
+
+    it('waits half a day from noon on a regular day', () => {
+        expect(getMsUntilTomorrow(new Date(2024, 0, 15, 12, 0))).toBe(12 * HOUR_MS);
+    });
+});
+
+/**
+ * Length of the days whose clock changes, as seen by getMsUntilTomorrow from their midnight
+ */
+const DST_DAYS: { timeZone: string; date: string; hours: number }[] = [
+    { timeZone: 'Europe/Madrid', date: '2024-03-31', hours: 23 },
+    { timeZone: 'Europe/Madrid', date: '2024-10-27', hours: 25 },
+    { timeZone: 'America/Los_Angeles', date: '2024-03-10', hours: 23 },
+    { timeZone: 'America/Los_Angeles', date: '2024-11-03', hours: 25 },
+    { timeZone: 'Australia/Lord_Howe', date: '2024-04-07', hours: 24.5 },
+    { timeZone: 'Australia/Lord_Howe', date: '2024-10-06', hours: 23.5 },
+    // Midnight of the 4th didn't exist: the day started at 01:00
+    { timeZone: 'America/Sao_Paulo', date: '2018-11-03', hours: 24 },
+    { timeZone: 'America/Sao_Paulo', date: '2018-11-04', hours: 23 },
+    { timeZone: 'Pacific/Kiritimati', date: '2024-03-31', hours: 24 },
+];
+
+describe.each(DST_DAYS)('getMsUntilTomorrow on $date in $timeZone', ({ timeZone, date, hours }) => {
+    inTimeZone(timeZone);
+
+    it(`lasts ${hours} hours from the start of the day`, () => {
+        expect(getMsUntilTomorrow(parseLocalDate(date))).toBe(hours * HOUR_MS);
+    });
+
+    it('reaches the next local date', () => {
+        const now = parseLocalDate(date);
+        const tomorrow = new Date(now.getTime() + getMsUntilTomorrow(now));
+
+        expect(getToday(tomorrow)).toBe(addDays(date, 1));
+        expect(getToday(new Date(tomorrow.getTime() - 1))).toBe(date);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Local Date Utilities
+ *
+ * Days are identified by their local calendar date "YYYY-MM-DD": the day shown
+ * on the user's clock, never the UTC day of an instant. Date objects are only
+ * turned into strings through their local fields, and arithmetic on date strings
+ * goes through day numbers (plain calendar arithmetic), so time zone offsets and
+ * DST transitions (23 and 25 hour days) never move a date.
+ */
+
+/**
+ * Days in a 400-year cycle of the Gregorian calendar
+ */
+const DAYS_PER_ERA = 146097;
+
+/**
+ * Days from 0000-03-01 to 1970-01-01
+ */
+const EPOCH_OFFSET = 719468;
+
+/**
+ * Shape of a "YYYY-MM-DD" string
+ */
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Build a "YYYY-MM-DD" string from its parts
+ *
+ * @param year - Full year
+ * @param month - Month index, 0 = January (as in Date)
+ * @param day - Day of the month
+ */
+export function toDateKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar date of a Date object
+ *
+ * @example
+ * toLocalDateString(new Date(2024, 0, 31, 23, 30)) // => '2024-01-31' in every time zone
+ */
+export function toLocalDateString(date: Date): string {
+    return toDateKey(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Today's local calendar date
+ *
+ * @param now - Current time (default: now)
+ */
+export function getToday(now: Date = new Date()): string {
+    return toLocalDateString(now);
+}
+
+/**
+ * Whether a value is an existing date in "YYYY-MM-DD" format
+ */
+export function isValidDateString(value: string): boolean {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) return false;
+
+    const [year, month, day] = match.slice(1).map(Number);
+    return month >= 1 && month <= 12 && day >= 1 && day <= getDaysInMonth(year, month - 1);
+}
+
+/**
+ * Local midnight of a "YYYY-MM-DD" date, for display and local-time calculations
+ * (if midnight doesn't exist because of DST, the browser moves it to the first valid time)
+ */
+export function parseLocalDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Number of days since 1970-01-01 of a "YYYY-MM-DD" date.
+ * Plain calendar arithmetic, with no Date objects or time zones involved
+ * (it runs for every day of multi-year scans).
+ */
+export function toDayNumber(date: string): number {
+    const day = Number(date.slice(8, 10));
+    const month = Number(date.slice(5, 7));
+    // Years start in March, so the leap day is the last day of the year
+    const year = Number(date.slice(0, 4)) - (month <= 2 ? 1 : 0);
+
+    const era = Math.floor(year / 400);
+    const yearOfEra = year - era * 400;
+    const dayOfYear = Math.floor((153 * (month > 2 ? month - 3 : month + 9) + 2) / 5) + day - 1;
+    const dayOfEra = yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100) + dayOfYear;
+
+    return era * DAYS_PER_ERA + dayOfEra - EPOCH_OFFSET;
+}
+
+/**
+ * "YYYY-MM-DD" date of a day number (see toDayNumber)
+ */
+export function fromDayNumber(dayNumber: number): string {
+    const days = dayNumber + EPOCH_OFFSET;
+    const era = Math.floor(days / DAYS_PER_ERA);
+    const dayOfEra = days - era * DAYS_PER_ERA;
+    const yearOfEra = Math.floor(
+        (dayOfEra - Math.floor(dayOfEra / 1460) + Math.floor(dayOfEra / 36524) - Math.floor(dayOfEra / 146096)) / 365
+    );
+    const dayOfYear = dayOfEra - (yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+    const shiftedMonth = Math.floor((5 * dayOfYear + 2) / 153);
+    const day = dayOfYear - Math.floor((153 * shiftedMonth + 2) / 5) + 1;
+    const month = shiftedMonth < 10 ? shiftedMonth + 3 : shiftedMonth - 9;
+    const year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0);
+
+    return toDateKey(year, month - 1, day);
+}
+
+/**
+ * Move a date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+    return fromDayNumber(toDayNumber(date) + days);
+}
+
+/**
+ * Number of days from one date to another (negative if `to` is earlier)
+ */
+export function diffDays(from: string, to: string): number {
+    return toDayNumber(to) - toDayNumber(from);
+}
+
+/**
+ * Weekday of a date, 0 = Monday ... 6 = Sunday
+ */
+export function getWeekday(date: string): number {
+    // 1970-01-01 was a Thursday
+    return (((toDayNumber(date) + 3) % 7) + 7) % 7;
+}
+
+/**
+ * Monday of the week containing a date
+ */
+export function getWeekStart(date: string): string {
+    return addDays(date, -getWeekday(date));
+}
+
+/**
+ * Number of days in a month
+ *
+ * @param month - Month index, 0 = January (as in Date)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * First and last date of a year
+ */
+export function getYearRange(year: number): { start: string; end: string } {
+    return { start: `${year}-01-01`, end: `${year}-12-31` };
+}
+
+/**
+ * List every date between two dates (inclusive)
+ */
+export function getDatesBetween(start: string, end: string): string[] {
+    const dates: string[] = [];
+    const last = toDayNumber(end);
+    for (let day = toDayNumber(start); day <= last; day++) {
+        dates.push(fromDayNumber(day));
+    }
+    return dates;
+}
+
+/**
+ * Milliseconds until the next local midnight, when "today" changes
+ * (shorter or longer than usual on DST transition days)
+ *
+ * @param now - Current time (default: now)
+ */
+export function getMsUntilTomorrow(now: Date = new Date()): number {
+    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    return midnight.getTime() - now.getTime();
+}
@@ -9,6 +9,7 @@ import { VitePWA } from 'vite-plugin-pwa';
  * - Hot Module Replacement (HMR)
  * - PWA support with Service Worker
  * - Stale-While-Revalidate caching strategy for static assets
+ * - Habit reminder notifications (public/reminder-sw.js)
  * 
  * @see https://vitejs.dev/config/
  */
@@ -53,6 +54,9 @@ export default defineConfig({
       workbox: {
         // Files to precache
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2}'],
+
+        // Reminder notifications (scheduling, periodic sync and notification clicks)
+        importScripts: ['reminder-sw.js'],
         
         // Runtime caching strategies
         runtimeCaching: [